@@ -119,8 +119,35 @@ def parse_page(url):
         return None
 
 
+def snapshot_filename(timestamp):
+    # "2026-01-20T00:05:20.459366+00:00" -> "2026-01-20T00-05-20.json"
+    return timestamp[:19].replace(":", "-") + ".json"
+
+
+def write_history(results, history_dir):
+    os.makedirs(history_dir, exist_ok=True)
+
+    filename = snapshot_filename(results["timestamp"])
+    with open(os.path.join(history_dir, filename), "w") as f:
+        json.dump(results, f, indent=2)
+
+    index_path = os.path.join(history_dir, "index.json")
+    index = {"snapshots": []}
+    if os.path.exists(index_path):
+        with open(index_path) as f:
+            index = json.load(f)
+
+    snapshots = [s for s in index["snapshots"] if s["file"] != filename]
+    snapshots.append({"timestamp": results["timestamp"], "file": filename})
+    index["snapshots"] = sorted(snapshots, key=lambda s: s["timestamp"])
+
+    with open(index_path, "w") as f:
+        json.dump(index, f, indent=2)
+
+
 def main():
     results_path = "public/data.json"
+    history_dir = "public/history"
     results = {"timestamp": datetime.now(timezone.utc).isoformat(), "data": {}}
     
     os.makedirs("public", exist_ok=True)
@@ -139,7 +166,8 @@ def main():
     if success_count > 0:
         with open(results_path, "w") as f:
             json.dump(results, f, indent=2)
-        print(f"Successfully updated {results_path}")
+        write_history(results, history_dir)
+        print(f"Successfully updated {results_path} and {history_dir}")
     else:
         print("No data scraped successfully.")
         exit(1)
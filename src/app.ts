@@ -1,491 +1,734 @@
 import './styles.css';
+import { type Html, EMPTY_HTML, html, setHtml } from './html';
+import {
+    type FullData, type HistoryIndex, type ReportData, type Snapshot, type Branch, type ExportCell, type ExportSection,
+    MISSING_LABELS, branchLabel, isObject, validateReportData, measureSnapshot, historyEntries, collectExportSections,
+    exportDelta,
+} from './report';
+import {
+    type Preferences, type DeltaMode, type MixStrategy, type Route, type DrivingMode, BASELINE_STORAGE_KEY,
+    TIE_THRESHOLD_STORAGE_KEY, PREFERENCES_STORAGE_KEY, DEFAULT_PREFERENCES, DISTANCE_OPTIONS, TIME_OPTIONS, LOCALE_OPTIONS,
+    DELTA_MODE_STORAGE_KEY, ADJUST_SPEED_STORAGE_KEY, DRIVING_MODES, EXPORT_FORMATS, resolveBaseline, resolvePreferences,
+    resolveDeltaMode, shownMixStrategy, slugify, routePath, sectionAnchor, pageTitle, formatRelativeTime, formatMetricName,
+    exportTextRows, renderComparisonSections, renderScoreboard, renderDataIssues, renderSectionError,
+} from './render';
+
+const HISTORY_DIR = '/history';
+const ROUTE_PARAM = 'route';
+
+// The built index.html already holds the default view (see prerender.ts); everything is rendered again over it
+// once the data is loaded, so stored settings, local reports and the route apply and the controls get bound
+async function init() {
+    try {
+        restoreRedirectedRoute();
+        const res = await fetch('/data.json');
+        if (!res.ok) throw new Error("Failed to load data");
+        const json: FullData = await res.json();
 
-interface ReportData {
-    metadata: {
-        page_title: string | null;
-        url: string;
-        branch_name: string | null;
-    };
-    segments: {
-        total: number;
-        chill_mode: number;
-        experimental_mode: number;
-    };
-    sections?: {
-        engagement_time?: {
-            title: string;
-            overall: number;
-            overall_detail?: string;
-            chill_mode: number;
-            chill_mode_detail?: string;
-            experimental_mode: number;
-            experimental_mode_detail?: string;
+        // Only an unusable top level is fatal; everything below it degrades per section
+        if (!isObject(json) || !isObject(json.data)) throw new Error("data.json has no data object");
+        const scrapedKeys = Object.keys(json.data);
+        if (scrapedKeys.length === 0) throw new Error("No branches in data");
+
+        const earlier = (await loadHistory(json)).slice(0, -1).map(measureSnapshot);
+        const dataParamIssues = await loadDataParam(scrapedKeys);
+
+        // Local reports join data.json as extra branches, so everything below is rebuilt when they change
+        const measure = () => {
+            const snapshot = measureSnapshot(withLocalReports(json));
+            snapshot.issues.forEach(issue => console.warn(issue));
+            Object.entries(snapshot.reports).forEach(([key, report]) => {
+                report.parseIssues.forEach(issue => console.warn(`data.${key}.${issue}`));
+            });
+            return snapshot;
         };
-        engagement_distance?: {
-            title: string;
-            overall: number;
-            overall_detail?: string;
-            chill_mode: number;
-            chill_mode_detail?: string;
-            experimental_mode: number;
-            experimental_mode_detail?: string;
+        let current = measure();
+        let history = [...earlier, current];
+        let branchKeys = Object.keys(current.reports);
+
+        const reloadLocalReports = (issues: Html) => {
+            current = measure();
+            history = [...earlier, current];
+            branchKeys = Object.keys(current.reports);
+            setHtml(document.getElementById('local-report-issues')!, issues);
+            renderLocalReports(forgetLocalReport);
+            renderPageHeader(current);
+            showRoute(false);
         };
-    };
-    tables: Record<string, {
-        title: string;
-        headers: string[];
-        rows: any[];
-    }>;
-}
-
-interface FullData {
-    timestamp: string;
-    data: {
-        master: ReportData;
-        wmi: ReportData;
-    };
+        const forgetLocalReport = (key: string) => {
+            const reports = resolveLocalReports();
+            delete reports[key];
+            reloadLocalReports(saveLocalReports(reports));
+        };
+        bindLocalReportInputs(sources => reloadLocalReports(storeLocalReports(sources, scrapedKeys)));
+        setHtml(document.getElementById('local-report-issues')!, dataParamIssues);
+        renderLocalReports(forgetLocalReport);
+
+        renderPageHeader(current);
+
+        // Everything the page shows is derived from the URL, so any view can be linked
+        const showRoute = (scroll: boolean) => {
+            const route = parseRoute(location);
+            const shownKeys = routeBranches(branchKeys, route);
+
+            renderBaselineSelect(branchKeys, shownKeys[0], (baseline) => {
+                localStorage.setItem(BASELINE_STORAGE_KEY, baseline);
+                const branches = [baseline, ...shownKeys.filter(key => key !== baseline)];
+                window.history.pushState(null, '', routePath({ ...parseRoute(location), branches }));
+                showRoute(false);
+            });
+            renderModeSelect(route.mode, (mode) => {
+                window.history.replaceState(null, '', routePath({ ...parseRoute(location), mode }));
+                applyModeFilter(mode);
+            });
+
+            renderComparison(current, history, shownKeys);
+            applyModeFilter(route.mode);
+            if (scroll) scrollToTarget(route.target);
+        };
+
+        document.addEventListener('click', (e) => {
+            const link = (e.target as Element).closest<HTMLAnchorElement>('a[data-route]');
+            if (!link) return;
+            e.preventDefault();
+            window.history.pushState(null, '', routePath({ ...parseRoute(location), target: link.dataset.route!.split('/') }));
+            scrollToTarget(parseRoute(location).target);
+        });
+        renderDeltaModeSelect(resolveDeltaMode(), (mode) => {
+            localStorage.setItem(DELTA_MODE_STORAGE_KEY, mode);
+            showRoute(false);
+        });
+        renderChangeThresholdControl(resolveChangeThreshold(), (threshold) => {
+            localStorage.setItem(CHANGE_THRESHOLD_STORAGE_KEY, String(threshold.value));
+            localStorage.setItem(CHANGE_THRESHOLD_KIND_STORAGE_KEY, threshold.kind);
+            applyChangeThreshold(threshold);
+        });
+        renderPreferencesPanel(resolvePreferences(), (preferences) => {
+            localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+            renderPageHeader(current);
+            showRoute(false);
+        });
+        window.onpopstate = () => showRoute(true);
+        showRoute(true);
+
+    } catch (e) {
+        console.error(e);
+        setHtml(document.querySelector('main')!, html`<div class="p-8 text-red-500">Error loading data: ${String(e)}</div>`);
+    }
 }
 
-async function init() {
+// Oldest first and always ending with the current snapshot, so a missing history still yields [current]
+async function loadHistory(current: FullData): Promise<FullData[]> {
     try {
-        const res = await fetch('./data.json');
-        if (!res.ok) throw new Error("Failed to load data");
-        const json: FullData = await res.json();
+        const res = await fetch(`${HISTORY_DIR}/index.json`);
+        if (!res.ok) return [current];
+        const index: HistoryIndex = await res.json();
+
+        const snapshots = await Promise.all(historyEntries(index, current).map(async entry => {
+            const snapshotRes = await fetch(`${HISTORY_DIR}/${entry.file}`);
+            if (!snapshotRes.ok) return null;
+            const snapshot = await snapshotRes.json();
+            return isObject(snapshot) && isObject(snapshot.data) ? snapshot as unknown as FullData : null;
+        }));
+
+        return [...snapshots.filter((snapshot): snapshot is FullData => snapshot !== null), current];
+    } catch (e) {
+        console.error(e);
+        return [current];
+    }
+}
 
-        renderPageHeader(json);
-        renderEngagementRateAnalysis(json.data.master, json.data.wmi);
-        renderAllComparisonTables(json.data.master, json.data.wmi);
+function renderComparison(snapshot: Snapshot, history: Snapshot[], branchKeys: string[]) {
+    const branches = branchKeys.map(key => ({ key, report: snapshot.reports[key] }));
+    const sections = renderComparisonSections(snapshot, history, branches, Object.keys(resolveLocalReports()));
+
+    Object.entries(sections).forEach(([id, markup]) => setHtml(document.getElementById(id)!, markup));
+    bindSafely('scoreboard-section', 'Playoff scoreboard', () => bindScoreboard(branches));
+    bindSafely('summary-section', 'Engagement rate analysis', bindEngagementControls);
+    bindSafely('comparison-section', 'Comparison tables', bindComparisonTables);
+    bindExportControls(branches, snapshot.timestamp);
+    bindChartToggles();
+    applyChangeThreshold(resolveChangeThreshold());
+}
 
+// A section whose controls cannot be bound shows the error instead of half-working controls
+function bindSafely(containerId: string, title: string, bind: () => void) {
+    try {
+        bind();
     } catch (e) {
         console.error(e);
-        document.body.innerHTML = `<div class="p-8 text-red-500">Error loading data: ${e}</div>`;
+        setHtml(document.getElementById(containerId)!, renderSectionError(title, e));
+    }
+}
+
+// ===== PREFERENCES =====
+
+function renderPreferencesPanel(preferences: Preferences, onChange: (preferences: Preferences) => void) {
+    const container = document.getElementById('preferences')!;
+    const selectClass = 'bg-black border border-dashed border-border-subtle px-2 py-0.5 uppercase tracking-wider';
+
+    setHtml(container, html`
+        <label class="flex items-center gap-2">
+            <span class="opacity-60">distance:</span>
+            <select id="pref-distance" class="${selectClass}">
+                ${DISTANCE_OPTIONS.map(option => html`<option value="${option.value}">${option.label}</option>`)}
+            </select>
+        </label>
+        <label class="flex items-center gap-2">
+            <span class="opacity-60">time:</span>
+            <select id="pref-time" class="${selectClass}">
+                ${TIME_OPTIONS.map(option => html`<option value="${option}">${option}</option>`)}
+            </select>
+        </label>
+        <label class="flex items-center gap-2">
+            <span class="opacity-60">locale:</span>
+            <select id="pref-locale" class="${selectClass}">
+                ${LOCALE_OPTIONS.map(option => html`<option value="${option}">${option || 'browser'}</option>`)}
+            </select>
+        </label>
+    `);
+
+    const distanceSelect = document.getElementById('pref-distance') as HTMLSelectElement;
+    const timeSelect = document.getElementById('pref-time') as HTMLSelectElement;
+    const localeSelect = document.getElementById('pref-locale') as HTMLSelectElement;
+    distanceSelect.value = preferences.distance;
+    timeSelect.value = preferences.time;
+    localeSelect.value = preferences.locale;
+
+    distanceSelect.onchange = timeSelect.onchange = localeSelect.onchange = () => onChange({
+        distance: DISTANCE_OPTIONS.find(option => option.value === distanceSelect.value)?.value ?? DEFAULT_PREFERENCES.distance,
+        time: TIME_OPTIONS.find(option => option === timeSelect.value) ?? DEFAULT_PREFERENCES.time,
+        locale: localeSelect.value,
+    });
+}
+
+// ===== MIX ADJUSTMENT =====
+
+function applyMixStrategy(root: HTMLElement, adjustSpeed: boolean) {
+    root.querySelectorAll<HTMLElement>('[data-adjustments]').forEach(breakdown => {
+        const available = breakdown.dataset.adjustments!.split(' ') as MixStrategy[];
+        const strategy = shownMixStrategy(available, adjustSpeed);
+        breakdown.querySelectorAll<HTMLElement>('[data-adjustment]').forEach(el => {
+            el.classList.toggle('hidden', el.dataset.adjustment !== strategy);
+        });
+    });
+}
+
+function bindEngagementControls() {
+    const summarySection = document.getElementById('summary-section')!;
+    const adjustSpeedInput = document.getElementById('adjust-speed') as HTMLInputElement;
+    adjustSpeedInput.onchange = () => {
+        localStorage.setItem(ADJUST_SPEED_STORAGE_KEY, String(adjustSpeedInput.checked));
+        applyMixStrategy(summarySection, adjustSpeedInput.checked);
+    };
+}
+
+function renderPageHeader(snapshot: Snapshot) {
+    const updated = Number.isNaN(Date.parse(snapshot.timestamp)) ? 'unknown' : formatRelativeTime(snapshot.timestamp);
+    document.getElementById('timestamp')!.textContent = `Last Update: ${updated}`;
+    document.getElementById('page-title')!.textContent = pageTitle(snapshot);
+}
+
+function renderBaselineSelect(branchKeys: string[], baseline: string, onChange: (baseline: string) => void) {
+    const select = document.getElementById('baseline-select') as HTMLSelectElement;
+
+    setHtml(select, html`${branchKeys.map(key => html`<option value="${key}">${key}</option>`)}`);
+    select.value = baseline;
+    select.onchange = () => onChange(select.value);
+}
+
+function renderDeltaModeSelect(mode: DeltaMode, onChange: (mode: DeltaMode) => void) {
+    const select = document.getElementById('delta-mode') as HTMLSelectElement;
+
+    select.value = mode;
+    select.onchange = () => onChange(select.value === 'rel' ? 'rel' : 'abs');
+}
+
+// ===== ROUTING =====
+
+// A malformed escape ("%E0%A4%A") stays as typed; it then matches nothing instead of breaking the page
+function decodePathPart(part: string): string {
+    try {
+        return decodeURIComponent(part);
+    } catch {
+        return part;
+    }
+}
+
+function parseRoute(url: Location): Route {
+    const parts = url.pathname.split('/').filter(Boolean).map(decodePathPart);
+    let branches: string[] | null = null;
+    if (parts[0] === 'compare' && parts[1]) {
+        const [baseline, others = ''] = parts[1].split('..');
+        branches = [baseline, ...others.split(',').filter(Boolean)];
+        parts.splice(0, 2);
+    }
+
+    const mode = new URLSearchParams(url.search).get('mode');
+    return {
+        branches,
+        target: parts,
+        mode: DRIVING_MODES.find(drivingMode => drivingMode === mode) ?? null,
+    };
+}
+
+// public/404.html bounces app routes to /?route=<path>; put the original path back before reading it.
+// Anything that does not resolve to this origin ("//other.host", "/\other.host") is ignored, never fatal
+function restoreRedirectedRoute() {
+    const redirected = new URLSearchParams(location.search).get(ROUTE_PARAM);
+    if (!redirected?.startsWith('/')) return;
+    try {
+        const url = new URL(redirected, location.origin);
+        if (url.origin === location.origin) window.history.replaceState(null, '', url.pathname + url.search + location.hash);
+    } catch {
+        // Malformed; stay on the page as loaded
     }
 }
 
-// ===== HELPER FUNCTIONS =====
+// Branches the route asks for that exist, baseline first; a lone or missing baseline falls back to every branch
+function routeBranches(branchKeys: string[], route: Route): string[] {
+    const requested = (route.branches ?? []).filter((key, i, keys) => branchKeys.includes(key) && keys.indexOf(key) === i);
+    if (requested.length >= 2) return requested;
 
-function formatNumbersInString(str: string): string {
-    return str.replace(/\d+(\.\d+)?/g, (match) => {
-        const [integerPart, decimalPart] = match.split('.');
-        const formatted = parseInt(integerPart).toLocaleString();
-        return decimalPart ? `${formatted}.${decimalPart}` : formatted;
+    const baseline = requested[0] ?? resolveBaseline(branchKeys);
+    return [baseline, ...branchKeys.filter(key => key !== baseline)];
+}
+
+// Hides rows, tables and columns tagged with another driving mode
+function applyModeFilter(mode: DrivingMode | null) {
+    document.querySelectorAll<HTMLElement>('[data-mode]').forEach(el => {
+        el.classList.toggle('hidden-by-mode', mode !== null && el.dataset.mode !== mode);
     });
 }
 
-function formatDecimalTrimZeros(num: number, maxDecimals: number): string {
-    return num.toFixed(maxDecimals).replace(/\.?0+$/, '');
+function scrollToTarget(target: string[]) {
+    if (target.length > 0) focusRows([sectionAnchor(...target)]);
 }
 
-function convertToNum(str: string): number | null {
-    if (!str || str === 'undefined' || str === 'null') return null;
-    
-    const num = parseFloat(str);
-    return (Number.isNaN(num) || !Number.isFinite(num)) ? null : num;
+function renderModeSelect(mode: DrivingMode | null, onChange: (mode: DrivingMode | null) => void) {
+    const select = document.getElementById('mode-select') as HTMLSelectElement;
+
+    setHtml(select, html`${['all', ...DRIVING_MODES].map(option => html`<option value="${option}">${option}</option>`)}`);
+    select.value = mode ?? 'all';
+    select.onchange = () => onChange(DRIVING_MODES.find(option => option === select.value) ?? null);
 }
 
-interface DiffResult {
-    diff: number;
-    diffPrefix: string;
-    masterClass: string;
-    wmiClass: string;
+// ===== LOCAL REPORTS =====
+
+const LOCAL_REPORTS_STORAGE_KEY = 'localReports';
+const DATA_PARAM = 'data';
+
+// A report file as read from disk or a ?data= URL, before it is parsed
+interface ReportSource {
+    name: string;
+    text: string;
 }
 
-function calculateDiff(masterVal: number, wmiVal: number): DiffResult {
-    const diff = wmiVal - masterVal;
-    const diffPrefix = diff > 0 ? '+' : '';
-    const masterClass = masterVal > wmiVal ? 'opacity-80' : 'opacity-60';
-    const wmiClass = wmiVal > masterVal ? 'opacity-90' : 'opacity-60';
-    
-    return { diff, diffPrefix, masterClass, wmiClass };
+// Reports loaded from files or ?data= URLs, keyed by the branch they show up as; they only ever live in localStorage
+function resolveLocalReports(): Record<string, ReportData> {
+    try {
+        const stored = JSON.parse(localStorage.getItem(LOCAL_REPORTS_STORAGE_KEY) ?? '{}');
+        if (!isObject(stored)) return {};
+        return Object.fromEntries(Object.entries(stored)
+            .filter(([key, report]) => validateReportData(report, key).length === 0)) as Record<string, ReportData>;
+    } catch {
+        return {};
+    }
 }
 
-function formatDetailText(detail: string): string {
-    const parts = detail.split(' ');
-    if (parts.length >= 2) {
-        return formatNumbersInString(parts[0]) + '<br/>' + parts[1];
+// Rendered issues, empty when the reports were remembered
+function saveLocalReports(reports: Record<string, ReportData>): Html {
+    try {
+        localStorage.setItem(LOCAL_REPORTS_STORAGE_KEY, JSON.stringify(reports));
+        return EMPTY_HTML;
+    } catch (e) {
+        return renderDataIssues('Could not remember local reports', [String(e)]);
     }
-    return formatNumbersInString(detail);
-}
-
-function formatValueCell(val: string, cssClass: string): string {
-    const percentMatch = val.match(/([\d\.]+)%\s*(\([^)]+\))?/);
-    if (percentMatch) {
-        const percent = percentMatch[1];
-        const detail = percentMatch[2] || '';
-        if (detail) {
-            const detailContent = detail.slice(1, -1); // Remove parentheses
-            return `
-                <div class="font-bold ${cssClass}">${percent}%</div>
-                <div class="text-[8px] opacity-50 mt-0.5 leading-tight">${formatDetailText(detailContent)}</div>
-            `;
+}
+
+// Scraped branches keep their keys and come first; a local report never replaces one
+function withLocalReports(json: FullData): FullData {
+    const localReports = Object.entries(resolveLocalReports()).filter(([key]) => !(key in json.data));
+    return { ...json, data: { ...json.data, ...Object.fromEntries(localReports) } };
+}
+
+function uniqueBranchKey(key: string, taken: string[]): string {
+    let candidate = key;
+    for (let n = 2; taken.includes(candidate); n++) candidate = `${key}-${n}`;
+    return candidate;
+}
+
+// A source holds either a whole data.json ("<file>-<branch>" per branch) or a single report ("<file>").
+// Loading the same file again replaces its reports; only the scraped branch keys are avoided
+function parseReportSource(source: ReportSource, scrapedKeys: string[]): { reports: Record<string, ReportData>; issues: string[] } {
+    const json: unknown = JSON.parse(source.text);
+    const base = slugify(source.name.replace(/\.json$/i, '')) || 'local';
+    const entries: [string, string, unknown][] = isObject(json) && isObject(json.data)
+        ? Object.entries(json.data).map(([key, report]) => [`${base}-${slugify(key)}`, `data.${key}`, report])
+        : [[base, 'report', json]];
+
+    const reports: Record<string, ReportData> = {};
+    const issues: string[] = [];
+    entries.forEach(([key, path, report]) => {
+        const reportIssues = validateReportData(report, path);
+        if (reportIssues.length > 0) {
+            issues.push(...reportIssues);
+            return;
         }
-        return `<div class="font-bold ${cssClass}">${percent}%</div>`;
-    }
-    return `<span class="font-bold ${cssClass}">${formatNumbersInString(val)}</span>`;
-}
-
-function generateStringExample(masterOverall: number, wmiOverall: number, contextType: 'time' | 'distance'): string {
-    const scale = contextType === 'time' ? 60 : 100;
-    const unit = contextType === 'time' ? 'min' : 'miles';
-    const tripDesc = contextType === 'time' ? '1-hour drive' : '100-mile drive';
-    
-    const masterEngaged = Math.round(scale * (masterOverall / 100));
-    const wmiEngaged = Math.round(scale * (wmiOverall / 100));
-    
-    return `<strong>Example:</strong> On a ${tripDesc}, Master keeps openpilot engaged for about ${masterEngaged} ${unit}, WMI keeps it engaged for about ${wmiEngaged} ${unit}.`;
-}
-
-function formatRelativeTime(timestamp: string): string {
-    const seconds = Math.floor((Date.now() - new Date(timestamp).getTime()) / 1000);
-    const rtf = new Intl.RelativeTimeFormat('en', { numeric: 'auto' });
-    
-    const units: [Intl.RelativeTimeFormatUnit, number][] = [
-        ['year', 31536000], ['month', 2592000], ['day', 86400], 
-        ['hour', 3600], ['minute', 60], ['second', 1]
-    ];
-    
-    for (const [unit, secondsInUnit] of units) {
-        if (seconds >= secondsInUnit || unit === 'second') {
-            return rtf.format(-Math.floor(seconds / secondsInUnit), unit);
+        reports[uniqueBranchKey(key, scrapedKeys)] = report as ReportData;
+    });
+    if (entries.length === 0) issues.push('data has no branches');
+    return { reports, issues };
+}
+
+// Validates and remembers every source; returns the rendered issues of anything that was rejected
+function storeLocalReports(sources: ReportSource[], scrapedKeys: string[]): Html {
+    const reports = resolveLocalReports();
+    const rejected = sources.map(source => {
+        try {
+            const parsed = parseReportSource(source, scrapedKeys);
+            Object.assign(reports, parsed.reports);
+            return renderDataIssues(`Could not load ${source.name}`, parsed.issues);
+        } catch (e) {
+            return renderDataIssues(`Could not load ${source.name}`, [String(e)]);
         }
+    });
+    return html`${rejected}${saveLocalReports(reports)}`;
+}
+
+// ?data=<same-origin URL> is loaded once, remembered like a dropped file and then removed from the address bar
+async function loadDataParam(scrapedKeys: string[]): Promise<Html> {
+    const param = new URLSearchParams(location.search).get(DATA_PARAM);
+    if (!param) return EMPTY_HTML;
+
+    window.history.replaceState(null, '', routePath(parseRoute(location)) + location.hash);
+    try {
+        const url = new URL(param, location.href);
+        if (url.origin !== location.origin) throw new Error('only same-origin URLs can be loaded');
+        const res = await fetch(url);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return storeLocalReports([{ name: url.pathname.split('/').pop() || 'data', text: await res.text() }], scrapedKeys);
+    } catch (e) {
+        return renderDataIssues(`Could not load ${param}`, [String(e)]);
     }
-    return rtf.format(-seconds, 'second');
 }
 
-function renderPageHeader(json: FullData) {
-    document.getElementById('timestamp')!.textContent = `Last Update: ${formatRelativeTime(json.timestamp)}`;
+function renderLocalReports(onForget: (key: string) => void) {
+    const container = document.getElementById('local-reports')!;
+    const keys = Object.keys(resolveLocalReports());
+
+    setHtml(container, keys.length === 0 ? html`<span class="opacity-40">none</span>` : html`${keys.map(key => html`
+        <button data-forget-report="${key}" class="opacity-70 hover:opacity-100 uppercase" title="Forget this report">[ ${key} × ]</button>
+    `)}`);
+    container.querySelectorAll<HTMLButtonElement>('[data-forget-report]').forEach(button => {
+        button.onclick = () => onForget(button.dataset.forgetReport!);
+    });
 }
 
-function renderEngagementRateAnalysis(master: ReportData, wmi: ReportData) {
-    const masterLink = document.getElementById('master-link') as HTMLAnchorElement;
-    const wmiLink = document.getElementById('wmi-link') as HTMLAnchorElement;
+// The file picker and drops anywhere on the page; files are read in the browser and never sent anywhere
+function bindLocalReportInputs(onLoad: (sources: ReportSource[]) => void) {
+    const input = document.getElementById('local-report-input') as HTMLInputElement;
+    const read = async (files: File[]) => {
+        if (files.length > 0) onLoad(await Promise.all(files.map(async file => ({ name: file.name, text: await file.text() }))));
+    };
 
-    masterLink.href = master.metadata.url;
-    wmiLink.href = wmi.metadata.url;
+    input.onchange = () => {
+        read(Array.from(input.files ?? []));
+        input.value = '';
+    };
+    document.addEventListener('dragover', (e) => e.preventDefault());
+    document.addEventListener('drop', (e) => {
+        e.preventDefault();
+        read(Array.from(e.dataTransfer?.files ?? []));
+    });
+}
 
-    const summarySection = document.getElementById('summary-section')!;
+// ===== PLAYOFF SCOREBOARD =====
 
-    const renderEngagementBreakdown = (title: string, contextType: 'time' | 'distance', masterData: any, wmiData: any) => {
-        const masterOverall = masterData?.overall || 0;
-        const masterOverallDetail = masterData?.overall_detail || '';
-        const masterChill = masterData?.chill_mode || 0;
-        const masterChillDetail = masterData?.chill_mode_detail || '';
-        const masterExp = masterData?.experimental_mode || 0;
-        const masterExpDetail = masterData?.experimental_mode_detail || '';
-        const wmiOverall = wmiData?.overall || 0;
-        const wmiOverallDetail = wmiData?.overall_detail || '';
-        const wmiChill = wmiData?.chill_mode || 0;
-        const wmiChillDetail = wmiData?.chill_mode_detail || '';
-        const wmiExp = wmiData?.experimental_mode || 0;
-        const wmiExpDetail = wmiData?.experimental_mode_detail || '';
-        
-        const overallDiff = calculateDiff(masterOverall, wmiOverall);
-        const exampleText = generateStringExample(masterOverall, wmiOverall, contextType);
-        const metricType = contextType === 'time' ? 'TIME' : 'DISTANCE';
-        
-        return `
-            <div class="ascii-box-inner p-4 space-y-4">
-                <div class="mb-6 bg-black/40 p-3">
-                    <div class="flex items-center gap-2">
-                        <span class="text-[10px] opacity-50 tracking-widest uppercase">Overall Engagement Rate</span>
-                        <span class="text-[10px] opacity-50">·</span>
-                        <span class="text-sm font-bold glow-text tracking-wider">BY ${metricType}</span>
-                    </div>
-                </div>
-                
-                <!-- Overall Comparison -->
-                <div class="pb-3 border-b border-dashed border-phosphor-dim">
-                    <!-- Diff Badge at Top -->
-                    <div class="flex justify-center mb-3">
-                        <div class="inline-flex items-center px-3 py-1 border border-dashed border-neutral-500 bg-black/40">
-                            <span class="text-base font-bold text-neutral-500 tabular-nums">
-                                ${overallDiff.diffPrefix}${overallDiff.diff.toFixed(1)}%
-                            </span>
-                        </div>
-                    </div>
-                    
-                    <!-- Values Grid -->
-                    <div class="grid grid-cols-2">
-                        <!-- Master -->
-                        <div class="space-y-1 text-center pb-2 pr-6 border-r border-dashed border-phosphor-dim">
-                            <div class="text-lg md:text-xl opacity-70 font-bold mb-3 tracking-widest glow-text">MASTER</div>
-                            <div class="text-4xl font-bold tabular-nums ${masterOverall > wmiOverall ? 'glow-text' : 'opacity-60'}">${masterOverall.toFixed(1)}<span class="text-xl opacity-50">%</span></div>
-                            <div class="text-xs opacity-60 mt-2 font-medium leading-tight">${formatDetailText(masterOverallDetail)}</div>
-                        </div>
-                        
-                        <!-- WMI -->
-                        <div class="space-y-1 text-center pb-2 pl-6">
-                            <div class="text-lg md:text-xl opacity-90 font-bold mb-3 tracking-widest glow-text">WMI</div>
-                            <div class="text-4xl font-bold tabular-nums ${wmiOverall > masterOverall ? 'glow-text' : 'opacity-60'}">${wmiOverall.toFixed(1)}<span class="text-xl opacity-60">%</span></div>
-                            <div class="text-xs opacity-60 mt-2 font-medium leading-tight">${formatDetailText(wmiOverallDetail)}</div>
-                        </div>
-                    </div>
-                </div>
-
-                <!-- Context Explanation -->
-                <div class="text-[9px] opacity-50 italic leading-relaxed bg-black/20 p-2 border-l-2 border-phosphor-dim">
-                    ${exampleText}
-                </div>
-
-                <!-- Mode Breakdown Table -->
-                <div class="text-[10px]">
-                    <div class="text-[10px] opacity-50 uppercase tracking-widest mb-4 mt-6">Engagement rate by driving mode</div>
-                    <table class="terminal-table text-[10px] w-full">
-                        <thead>
-                            <tr>
-                                <th class="text-left py-1 px-2 opacity-50 text-[8px] uppercase tracking-wider">Mode</th>
-                                <th class="text-center py-1 px-2 opacity-50 w-24 text-[8px] uppercase">Master</th>
-                                <th class="text-center py-1 px-2 opacity-50 w-16 text-[8px] uppercase">Δ</th>
-                                <th class="text-center py-1 px-2 opacity-50 w-24 text-[8px] uppercase">WMI</th>
-                            </tr>
-                        </thead>
-                        <tbody>
-                            ${renderComparisonRow('Chill', masterChill, wmiChill, masterChillDetail, wmiChillDetail)}
-                            ${renderComparisonRow('Experimental', masterExp, wmiExp, masterExpDetail, wmiExpDetail)}
-                        </tbody>
-                    </table>
-                </div>
-            </div>
-        `;
+// Scrolls to the first row behind a tally and briefly outlines all of them
+function focusRows(anchors: string[]) {
+    const rows = anchors
+        .map(anchor => document.getElementById(anchor))
+        .filter((row): row is HTMLElement => row !== null);
+    if (rows.length === 0) return;
+
+    rows[0].scrollIntoView({ behavior: 'smooth', block: 'center' });
+    rows.forEach(row => row.classList.add('outline', 'outline-1', 'outline-phosphor-amber'));
+    setTimeout(() => rows.forEach(row => row.classList.remove('outline', 'outline-1', 'outline-phosphor-amber')), 2000);
+}
+
+function bindScoreboard(branches: Branch[]) {
+    const scoreboardSection = document.getElementById('scoreboard-section')!;
+    const thresholdInput = document.getElementById('tie-threshold') as HTMLInputElement;
+    thresholdInput.onchange = () => {
+        localStorage.setItem(TIE_THRESHOLD_STORAGE_KEY, thresholdInput.value);
+        setHtml(scoreboardSection, renderScoreboard(branches));
+        bindScoreboard(branches);
     };
 
-    summarySection.innerHTML = `
-        <div class="pb-4 border-b border-dashed border-phosphor-amber">
-            <h2 class="glow-text text-lg md:text-xl font-bold tracking-wider">ENGAGEMENT RATE ANALYSIS</h2>
-        </div>
-        
-        <!-- Selection Bias Note -->
-        <div class="mb-10 mt-4 bg-amber-500/10 border-l-4 border-amber-500/50 p-3">
-            <p class="text-[10px] leading-relaxed text-amber-500/80">
-                <span class="font-bold uppercase tracking-wider">Note:</span>
-                 Engagement rate comparison results should be interpreted with caution due to selection bias. Users exploring WMI tend to be more engaged than those running nightly builds.
-            </p>
-        </div>
-        
-        <div class="space-y-8">
-            <!-- Primary Engagement Metrics -->
-            <div class="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                ${renderEngagementBreakdown(
-                    'Engagement Rate (Time)',
-                    'time',
-                    master.sections?.engagement_time,
-                    wmi.sections?.engagement_time
-                )}
-                ${renderEngagementBreakdown(
-                    'Engagement Rate (Distance)',
-                    'distance',
-                    master.sections?.engagement_distance,
-                    wmi.sections?.engagement_distance
-                )}
-            </div>
-
-        </div>
-    `;
-}
-
-function renderComparisonRow(label: string, masterVal: number, wmiVal: number, masterDetail?: string, wmiDetail?: string) {
-    const diff = calculateDiff(masterVal, wmiVal);
-    const isPercentage = masterDetail !== undefined; // In data structure, percentage values always have detail strings
-    
-    const masterDisplay = isPercentage ? `${masterVal.toFixed(1)}%` : masterVal.toLocaleString();
-    const wmiDisplay = isPercentage ? `${wmiVal.toFixed(1)}%` : wmiVal.toLocaleString();
-    const diffDisplay = isPercentage ? `${diff.diffPrefix}${diff.diff.toFixed(1)}%` : `${diff.diffPrefix}${diff.diff.toLocaleString()}`;
-    
-    return `
-        <tr class="hover:bg-phosphor-amber/5 transition-colors">
-            <td class="py-2 px-2 font-bold opacity-75">${label}</td>
-            <td class="text-center tabular-nums">
-                ${masterDetail 
-                    ? `<div class="font-bold ${diff.masterClass}">${masterDisplay}</div><div class="text-[8px] opacity-50 mt-0.5 leading-tight">${formatDetailText(masterDetail)}</div>`
-                    : `<span class="font-bold ${diff.masterClass}">${masterDisplay}</span>`}
-            </td>
-            <td class="text-center text-neutral-500 font-bold tabular-nums text-[10px]">
-                ${diff.diff !== 0 ? diffDisplay : '—'}
-            </td>
-            <td class="text-center tabular-nums">
-                ${wmiDetail 
-                    ? `<div class="font-bold ${diff.wmiClass}">${wmiDisplay}</div><div class="text-[8px] opacity-50 mt-0.5 leading-tight">${formatDetailText(wmiDetail)}</div>`
-                    : `<span class="font-bold ${diff.wmiClass}">${wmiDisplay}</span>`}
-            </td>
-        </tr>
-    `;
-}
-
-function renderSegmentAnalysis(section: HTMLElement, master: ReportData, wmi: ReportData) {
-    const wrapper = document.createElement('div');
-    wrapper.className = 'ascii-box bg-black/40 p-4 md:p-6 space-y-6';
-
-    wrapper.innerHTML = `
-        <div class="pb-4 mb-10 border-b border-dashed border-phosphor-amber">
-            <h2 class="glow-text text-lg md:text-xl font-bold tracking-wider">SEGMENT ANALYSIS</h2>
-        </div>
-    `;
-
-    const totalDiff = calculateDiff(master.segments.total, wmi.segments.total);
-
-    const tableEl = document.createElement('table');
-    tableEl.className = 'terminal-table text-[11px] w-full';
-    tableEl.innerHTML = `
-        <thead>
-            <tr>
-                <th class="text-left py-2 opacity-50 text-[9px] uppercase tracking-wider">Mode</th>
-                <th class="text-center py-2 opacity-50 uppercase text-[9px] w-24">Master</th>
-                <th class="text-center py-2 opacity-50 uppercase text-[9px] w-16">Δ</th>
-                <th class="text-center py-2 opacity-50 uppercase text-[9px] w-24">WMI</th>
-            </tr>
-        </thead>
-        <tbody>
-            ${renderComparisonRow('Chill', master.segments.chill_mode, wmi.segments.chill_mode)}
-            ${renderComparisonRow('Experimental', master.segments.experimental_mode, wmi.segments.experimental_mode)}
-        </tbody>
-        <tfoot>
-            <tr class="border-t-2 border-phosphor-amber/40">
-                <td class="py-2 font-bold opacity-75 uppercase text-[10px]">Total Segments</td>
-                <td class="text-center tabular-nums"><span class="font-bold ${totalDiff.masterClass}">${master.segments.total.toLocaleString()}</span></td>
-                <td class="text-center text-neutral-500 font-bold tabular-nums text-[10px]">${totalDiff.diff !== 0 ? totalDiff.diffPrefix + totalDiff.diff.toLocaleString() : '—'}</td>
-                <td class="text-center tabular-nums"><span class="font-bold ${totalDiff.wmiClass}">${wmi.segments.total.toLocaleString()}</span></td>
-            </tr>
-        </tfoot>
-    `;
-
-    wrapper.appendChild(tableEl);
-    section.appendChild(wrapper);
-}
-
-function renderErrorRow(rowId: string, masterVal: string): string {
-    const formattedRowId = rowId.replace(/\s*(\([^)]+\))/, '<br/><span class="opacity-60 text-[9px]">$1</span>');
-    
-    return `
-        <tr class="hover:bg-phosphor-amber/5 transition-colors bg-red-500/10">
-            <td class="py-2 font-bold opacity-75 text-[10px] leading-tight">${formattedRowId.toUpperCase()}</td>
-            <td class="text-center tabular-nums">${formatValueCell(masterVal, 'opacity-60')}</td>
-            <td class="text-center text-[10px]"><span class="opacity-50"></span></td>
-            <td class="text-center text-red-500 text-[8px] bg-red-900/30">NO MATCH</td>
-        </tr>
-    `;
-}
-
-function renderAllComparisonTables(master: ReportData, wmi: ReportData) {
-    const section = document.getElementById('comparison-section')!;
+    scoreboardSection.querySelectorAll<HTMLAnchorElement>('a[data-anchors]').forEach(link => {
+        link.onclick = (e) => {
+            e.preventDefault();
+            focusRows(link.dataset.anchors!.split(' '));
+        };
+    });
+}
 
-    // Segment Analysis has known field names
-    // Other tables have unknown structure (discovered at runtime from master.tables)
-    renderSegmentAnalysis(section, master, wmi);
-
-    const tableKeys = Object.keys(master.tables);
-
-    tableKeys.forEach(key => {
-        if (!wmi.tables[key]) return;
-
-        const masterTable = master.tables[key];
-        const wmiTable = wmi.tables[key];
-
-        const headers = masterTable.headers;
-        if (headers.length === 0) return;
-
-        const idKey = headers[0];
-        const metricKeys = headers.slice(1);
-
-        const wrapper = document.createElement('div');
-        wrapper.className = 'ascii-box bg-black/40 p-4 md:p-6 space-y-6';
-
-        const headerHTML = `
-            <div class="pb-4 mb-10 border-b border-dashed border-phosphor-amber">
-                <h2 class="glow-text text-lg md:text-xl font-bold tracking-wider">${masterTable.title.toUpperCase()}</h2>
-            </div>
-        `;
-
-        const tablesContainer = document.createElement('div');
-        tablesContainer.innerHTML = headerHTML;
-        
-        const tablesGrid = document.createElement('div');
-        tablesGrid.className = 'grid grid-cols-1 xl:grid-cols-2 gap-10';
-
-        // Render each metric as a separate table
-        metricKeys.forEach(metricName => {
-            const tableWrapper = document.createElement('div');
-            tableWrapper.className = 'space-y-3';
-
-            const modeHeader = document.createElement('div');
-            modeHeader.className = 'flex items-center gap-2 pb-2 border-b border-dashed border-phosphor-dim';
-            modeHeader.innerHTML = `
-                <span class="text-[10px] opacity-50 uppercase tracking-wider">Mode:</span>
-                <span class="text-sm font-bold glow-text">${metricName.toUpperCase()}</span>
-            `;
-            tableWrapper.appendChild(modeHeader);
-
-            const tableEl = document.createElement('table');
-            tableEl.className = 'terminal-table text-[11px] w-full';
-
-            let theadHTML = `
-                <thead>
-                    <tr>
-                        <th class="text-left py-2 opacity-50 text-[9px] uppercase tracking-wider">${masterTable.headers[0]}</th>
-                        <th class="text-center py-2 opacity-50 uppercase text-[9px] w-24">Master</th>
-                        <th class="text-center py-2 opacity-50 uppercase text-[9px] w-16">Δ</th>
-                        <th class="text-center py-2 opacity-50 uppercase text-[9px] w-24">WMI</th>
-                    </tr>
-                </thead>
-            `;
-
-            let tbodyHTML = `<tbody>`;
-
-            masterTable.rows.forEach((masterRow, i) => {
-                const rowId = masterRow[idKey];
-                const wmiRow = wmiTable.rows.find(r => r[idKey] === rowId);
-
-                if (!wmiRow) {
-                    const masterVal = masterRow[metricName] ? String(masterRow[metricName]) : '';
-                    tbodyHTML += renderErrorRow(rowId, masterVal);
-                    return;
-                }
+// ===== TABLE CONTROLS =====
 
-                const masterVal = masterRow[metricName] ? String(masterRow[metricName]) : '';
-                const wmiVal = wmiRow[metricName] ? String(wmiRow[metricName]) : '';
-                const masterNumVal = convertToNum(masterVal);
-                const wmiNumVal = convertToNum(wmiVal);
-
-                let deltaHTML = '<span class="text-neutral-500">—</span>';
-                let masterClass = "opacity-60";
-                let wmiClass = "opacity-60";
-
-                if (masterNumVal !== null && wmiNumVal !== null) {
-                    const diffResult = calculateDiff(masterNumVal, wmiNumVal);
-                    masterClass = diffResult.masterClass;
-                    wmiClass = diffResult.wmiClass;
-
-                    // Only show number if diff is significant
-                    if (Math.abs(diffResult.diff) > 0.0001) {
-                        const isPercentage = masterVal.includes('%') || wmiVal.includes('%');
-                        const formattedDiff = formatDecimalTrimZeros(diffResult.diff, 4);
-                        const percentSign = isPercentage ? '%' : '';
-                        deltaHTML = `<span class="text-neutral-500 font-bold tabular-nums">${diffResult.diffPrefix}${formattedDiff}${percentSign}</span>`;
-                    }
-                }
+type ChangeThresholdKind = 'abs' | 'rel';
+
+// Rows whose largest change against the baseline is below this are hidden; 0 shows everything
+interface ChangeThreshold {
+    value: number;
+    kind: ChangeThresholdKind;
+}
+
+const CHANGE_THRESHOLD_STORAGE_KEY = 'changeThreshold';
+const CHANGE_THRESHOLD_KIND_STORAGE_KEY = 'changeThresholdKind';
+
+function resolveChangeThreshold(): ChangeThreshold {
+    const stored = parseFloat(localStorage.getItem(CHANGE_THRESHOLD_STORAGE_KEY) ?? '');
+    const kind = localStorage.getItem(CHANGE_THRESHOLD_KIND_STORAGE_KEY) === 'rel' ? 'rel' : 'abs';
+    return { value: Number.isFinite(stored) && stored >= 0 ? stored : 0, kind };
+}
+
+// Generic table rows carry their values (baseline first, "" when missing) so they can be re-sorted and filtered in place
+function rowValues(row: HTMLElement): (number | null)[] {
+    return row.dataset.values!.split(' ').map(val => val === '' ? null : Number(val));
+}
+
+function absoluteChange(vals: (number | null)[], i: number): number | null {
+    const baselineVal = vals[0];
+    const val = vals[i];
+    return baselineVal === null || val === null ? null : Math.abs(val - baselineVal);
+}
+
+// In percent of the baseline; any change from a zero baseline counts as infinitely large
+function relativeChange(vals: (number | null)[], i: number): number | null {
+    const change = absoluteChange(vals, i);
+    if (change === null) return null;
+    if (vals[0] === 0) return change === 0 ? 0 : Infinity;
+    return change / Math.abs(vals[0]!) * 100;
+}
+
+// Rows with a gap on any side stay visible, since a missing value is itself worth seeing
+function isBelowThreshold(vals: (number | null)[], threshold: ChangeThreshold): boolean {
+    if (threshold.value <= 0 || vals.some(val => val === null)) return false;
+    const change = threshold.kind === 'abs' ? absoluteChange : relativeChange;
+    return vals.slice(1).every((_, i) => change(vals, i + 1)! < threshold.value);
+}
+
+function applyChangeThreshold(threshold: ChangeThreshold) {
+    let hiddenCount = 0;
+    document.querySelectorAll<HTMLElement>('tr[data-values]').forEach(row => {
+        const isHidden = isBelowThreshold(rowValues(row), threshold);
+        row.classList.toggle('hidden-by-threshold', isHidden);
+        if (isHidden) hiddenCount++;
+    });
+    document.getElementById('change-threshold-hidden')!.textContent = hiddenCount > 0 ? `(${hiddenCount} hidden)` : '';
+}
 
-                // Format the row ID to break at parenthesis
-                const formattedRowId = rowId.replace(/\s*(\([^)]+\))/, '<br/><span class="opacity-60 text-[9px]">$1</span>');
-                
-                tbodyHTML += `
-                    <tr class="hover:bg-phosphor-amber/5 transition-colors">
-                        <td class="py-2 font-bold opacity-75 text-[10px] leading-tight">${formattedRowId.toUpperCase()}</td>
-                        <td class="text-center tabular-nums">${formatValueCell(masterVal, masterClass)}</td>
-                        <td class="text-center text-[10px]">${deltaHTML}</td>
-                        <td class="text-center tabular-nums">${formatValueCell(wmiVal, wmiClass)}</td>
-                    </tr>
-                `;
+function renderChangeThresholdControl(threshold: ChangeThreshold, onChange: (threshold: ChangeThreshold) => void) {
+    const input = document.getElementById('change-threshold') as HTMLInputElement;
+    const kindSelect = document.getElementById('change-threshold-kind') as HTMLSelectElement;
+
+    input.value = String(threshold.value);
+    kindSelect.value = threshold.kind;
+    input.onchange = kindSelect.onchange = () => {
+        const value = parseFloat(input.value);
+        onChange({ value: Number.isFinite(value) && value >= 0 ? value : 0, kind: kindSelect.value === 'rel' ? 'rel' : 'abs' });
+    };
+}
+
+// Sort headers cycle: branch value high to low, low to high, then scrape order;
+// Δ by absolute change, then relative change, then scrape order. Rows without the value sink to the bottom
+function bindTableSorting(table: HTMLTableElement) {
+    const tbody = table.querySelector('tbody')!;
+    let sort = { column: '', step: 0 };
+
+    table.querySelectorAll<HTMLElement>('th[data-sort]').forEach(header => {
+        header.onclick = () => {
+            const column = header.dataset.sort!;
+            sort = { column, step: sort.column === column ? (sort.step + 1) % 3 : 1 };
+            const [by, branchIndex] = column.split(':');
+            const i = Number(branchIndex);
+
+            const sortKey = (row: HTMLElement): number | null => {
+                const vals = rowValues(row);
+                if (by === 'value') return sort.step === 1 ? vals[i] : vals[i] === null ? null : -vals[i]!;
+                return sort.step === 1 ? absoluteChange(vals, i) : relativeChange(vals, i);
+            };
+            const rows = Array.from(tbody.querySelectorAll<HTMLElement>('tr'));
+            rows.sort((a, b) => {
+                if (sort.step === 0) return Number(a.dataset.order) - Number(b.dataset.order);
+                const keyA = sortKey(a);
+                const keyB = sortKey(b);
+                if (keyA === null || keyB === null) return (keyA === null ? 1 : 0) - (keyB === null ? 1 : 0);
+                return keyB - keyA;
             });
+            rows.forEach(row => tbody.appendChild(row));
 
-            tbodyHTML += `</tbody>`;
-            tableEl.innerHTML = theadHTML + tbodyHTML;
+            table.querySelectorAll<HTMLElement>('[data-sort-indicator]').forEach(indicator => { indicator.textContent = ''; });
+            const indicators = by === 'value' ? ['', '▼', '▲'] : ['', '|Δ|▼', '%▼'];
+            header.querySelector<HTMLElement>('[data-sort-indicator]')!.textContent = indicators[sort.step];
+        };
+    });
+}
 
-            tableWrapper.appendChild(tableEl);
-            tablesGrid.appendChild(tableWrapper);
+function bindComparisonTables() {
+    const section = document.getElementById('comparison-section')!;
+    section.querySelectorAll('table').forEach(table => bindTableSorting(table));
+    section.querySelectorAll<HTMLElement>('[data-comparison-table]').forEach(bindRowFilter);
+}
+
+function bindRowFilter(container: HTMLElement) {
+    const input = container.querySelector<HTMLInputElement>('input[data-row-filter]')!;
+    input.oninput = () => {
+        const query = input.value.trim().toLowerCase();
+        container.querySelectorAll<HTMLElement>('tr[data-row-id]').forEach(row => {
+            row.classList.toggle('hidden-by-search', !row.dataset.rowId!.toLowerCase().includes(query));
         });
+    };
+}
+
+// ===== COMPARISON CHARTS =====
+
+function bindChartToggles() {
+    document.querySelectorAll<HTMLButtonElement>('button[data-chart-toggle]').forEach(button => {
+        const view = button.closest<HTMLElement>('[data-chart-view]')!;
+        const chart = view.querySelector<HTMLElement>('[data-chart]');
+        const table = view.querySelector<HTMLElement>('table');
+        if (!chart || !table) {
+            button.remove();
+            return;
+        }
+        button.onclick = () => {
+            const showChart = chart.classList.contains('hidden');
+            chart.classList.toggle('hidden', !showChart);
+            table.classList.toggle('hidden', showChart);
+            button.textContent = showChart ? '[ TABLE ]' : '[ CHART ]';
+        };
+    });
+}
+
+// ===== EXPORT =====
+
+function escapeCSV(field: string): string {
+    return /[",\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
 
-        tablesContainer.appendChild(tablesGrid);
-        wrapper.appendChild(tablesContainer);
-        section.appendChild(wrapper);
+// Plain numbers a spreadsheet reads as numbers: scraped units, no digit grouping, float noise rounded off
+function csvNumber(num: number | null): string {
+    return num === null ? '' : String(Number(num.toFixed(6)));
+}
+
+function csvValue(cell: ExportCell): string {
+    if (typeof cell === 'string') return MISSING_LABELS[cell];
+    return cell.value === null ? cell.raw : csvNumber(cell.value);
+}
+
+// "3313.2/9795 mins", unformatted
+function csvRatio(cell: ExportCell): string {
+    if (typeof cell === 'string' || cell.numerator === null || cell.denominator === null) return '';
+    return `${cell.numerator}/${cell.denominator}${cell.unit ? ` ${cell.unit}` : ''}`;
+}
+
+// Same columns as exportTextRows, with the raw value and delta, and the ratio in a column of its own when there is one
+function csvRows(branches: Branch[], section: ExportSection, withRatio: boolean): string[][] {
+    const branchHeader = (branch: Branch) => withRatio ? [branchLabel(branch), `${branchLabel(branch)} ratio`] : [branchLabel(branch)];
+    const valueFields = (cell: ExportCell) => withRatio ? [csvValue(cell), csvRatio(cell)] : [csvValue(cell)];
+    const header = [section.idKey, 'Metric', ...branches.flatMap((branch, i) => i === 0 ? branchHeader(branch) : [`Δ ${branchLabel(branch)}`, ...branchHeader(branch)])];
+    const rows = section.rows.map(row => [
+        row.id,
+        formatMetricName(row.metric),
+        ...row.cells.flatMap((cell, i) => i === 0
+            ? valueFields(cell)
+            : [csvNumber(exportDelta(row.cells[0], cell)), ...valueFields(cell)]),
+    ]);
+    return [header, ...rows];
+}
+
+// A page-wide export prefixes every row with its section so the sheet stays one table
+function toCSV(branches: Branch[], sections: ExportSection[]): string {
+    const withSection = sections.length > 1;
+    const withRatio = sections.some(section => section.rows.some(row => row.cells.some(cell => csvRatio(cell) !== '')));
+    const lines = sections.flatMap((section, s) => csvRows(branches, section, withRatio)
+        .filter((_, r) => r > 0 || s === 0)
+        .map((fields, r) => {
+            if (r === 0 && s === 0 && withSection) return ['Section', 'Row', ...fields.slice(1)];
+            return withSection ? [section.title, ...fields] : fields;
+        }));
+    return lines.map(fields => fields.map(escapeCSV).join(',')).join('\n') + '\n';
+}
+
+function toMarkdown(branches: Branch[], sections: ExportSection[]): string {
+    return sections.map(section => {
+        const [header, ...rows] = exportTextRows(branches, section)
+            .map(fields => `| ${fields.map(field => field.replace(/\|/g, '\\|')).join(' | ')} |`);
+        const divider = `| ${exportTextRows(branches, section)[0].map((_, i) => i < 2 ? '---' : '---:').join(' | ')} |`;
+        return [`**${section.title}**`, '', header, divider, ...rows].join('\n');
+    }).join('\n\n') + '\n';
+}
+
+// Numbers stay numbers; missing cells name what is missing instead of a value
+function toJSON(branches: Branch[], sections: ExportSection[], timestamp: string): string {
+    const normalized = {
+        timestamp,
+        baseline: branches[0].key,
+        branches: branches.map(branch => branch.key),
+        sections: sections.map(section => ({
+            key: section.scope,
+            title: section.title,
+            idKey: section.idKey,
+            rows: section.rows.map(row => ({
+                id: row.id,
+                metric: row.metric,
+                values: Object.fromEntries(row.cells.map((cell, i) => [branches[i].key, typeof cell === 'string'
+                    ? { missing: cell }
+                    : { value: cell.value, kind: cell.kind, numerator: cell.numerator, denominator: cell.denominator, unit: cell.unit, raw: cell.raw }])),
+                deltas: Object.fromEntries(row.cells.slice(1).map((cell, i) => [branches[i + 1].key, exportDelta(row.cells[0], cell)])),
+            })),
+        })),
+    };
+    return JSON.stringify(normalized, null, 2) + '\n';
+}
+
+function downloadExport(content: string, filename: string, mime: string) {
+    const url = URL.createObjectURL(new Blob([content], { type: mime }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+// Sections are collected on click, so exports always match the current baseline
+function bindExportControls(branches: Branch[], timestamp: string) {
+    document.querySelectorAll<HTMLElement>('[data-export]').forEach(control => {
+        const scope = control.dataset.export!;
+        control.querySelectorAll<HTMLButtonElement>('button[data-format]').forEach(button => {
+            button.onclick = async (e) => {
+                const { format, label, extension, mime } = EXPORT_FORMATS.find(entry => entry.format === button.dataset.format)!;
+                const sections = collectExportSections(branches, scope);
+                const content = format === 'csv' ? toCSV(branches, sections)
+                    : format === 'markdown' ? toMarkdown(branches, sections)
+                    : toJSON(branches, sections, timestamp);
+                const filename = `model-playoffs-${scope.replace(/\W+/g, '-')}.${extension}`;
+
+                if (e.shiftKey) {
+                    downloadExport(content, filename, mime);
+                    return;
+                }
+                try {
+                    await navigator.clipboard.writeText(content);
+                    button.textContent = '[ COPIED ]';
+                    setTimeout(() => { button.textContent = `[ ${label} ]`; }, 1500);
+                } catch {
+                    downloadExport(content, filename, mime);
+                }
+            };
+        });
     });
 }
 
@@ -0,0 +1,256 @@
+// Status badges (SVG) and Open Graph cards (PNG) written by the build. Cards are drawn with a 5×7 pixel font in the
+// page's phosphor colors and encoded here, so the build needs no image library.
+import { deflateSync } from 'node:zlib';
+import { html } from './html';
+import type { DeltaTone } from './render';
+
+// Text in one color: "text" is the page's amber, "dim" the faded amber of its labels
+export interface Span {
+    text: string;
+    tone: DeltaTone | 'text' | 'dim';
+}
+
+// One line of a card; scale is the pixel size of the font, shrunk when the line would not fit
+export interface ImageLine {
+    spans: Span[];
+    scale: number;
+    rule?: boolean; // dashed amber line underneath, like the section headers
+}
+
+type Color = Span['tone'] | 'background' | 'panel' | 'border';
+
+const COLORS: Record<Color, string> = {
+    background: '#0a0a0a',
+    panel: '#1a1a1a',
+    border: '#333333',
+    text: '#ffb000',
+    dim: '#a87400',
+    better: '#22c55e',
+    worse: '#ef4444',
+    neutral: '#737373',
+};
+
+// ===== BADGES =====
+
+const BADGE_HEIGHT = 20;
+const BADGE_CHAR_WIDTH = 7;
+const BADGE_PADDING = 6;
+
+// "WMI engagement | 41.2% (+7.4pp)"; textLength pins the width whichever monospace font the viewer has
+export function renderBadge(label: string, value: Span): string {
+    const labelWidth = label.length * BADGE_CHAR_WIDTH + 2 * BADGE_PADDING;
+    const valueWidth = value.text.length * BADGE_CHAR_WIDTH + 2 * BADGE_PADDING;
+    const width = labelWidth + valueWidth;
+
+    return html`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${BADGE_HEIGHT}" role="img" aria-label="${label}: ${value.text}">
+    <title>${label}: ${value.text}</title>
+    <rect width="${width}" height="${BADGE_HEIGHT}" fill="${COLORS.background}"/>
+    <rect x="${labelWidth}" width="${valueWidth}" height="${BADGE_HEIGHT}" fill="${COLORS.panel}"/>
+    <rect x="0.5" y="0.5" width="${width - 1}" height="${BADGE_HEIGHT - 1}" fill="none" stroke="${COLORS.border}"/>
+    <g font-family="'JetBrains Mono', 'DejaVu Sans Mono', monospace" font-size="11" dominant-baseline="central">
+        <text x="${BADGE_PADDING}" y="${BADGE_HEIGHT / 2}" fill="${COLORS.dim}" textLength="${label.length * BADGE_CHAR_WIDTH}">${label}</text>
+        <text x="${labelWidth + BADGE_PADDING}" y="${BADGE_HEIGHT / 2}" fill="${COLORS[value.tone]}" font-weight="bold" textLength="${value.text.length * BADGE_CHAR_WIDTH}">${value.text}</text>
+    </g>
+</svg>
+`.markup;
+}
+
+// ===== OPEN GRAPH IMAGES =====
+
+const IMAGE_WIDTH = 1200;
+const IMAGE_HEIGHT = 630;
+const IMAGE_MARGIN = 64;
+const IMAGE_BORDER_INSET = 24;
+
+// Rows top to bottom, "#" lit; text is upper-cased first and anything missing is drawn as "?"
+const GLYPHS: Record<string, string> = {
+    'A': '.###. #...# #...# ##### #...# #...# #...#',
+    'B': '####. #...# #...# ####. #...# #...# ####.',
+    'C': '.###. #...# #.... #.... #.... #...# .###.',
+    'D': '####. #...# #...# #...# #...# #...# ####.',
+    'E': '##### #.... #.... ####. #.... #.... #####',
+    'F': '##### #.... #.... ####. #.... #.... #....',
+    'G': '.###. #...# #.... #.### #...# #...# .####',
+    'H': '#...# #...# #...# ##### #...# #...# #...#',
+    'I': '.###. ..#.. ..#.. ..#.. ..#.. ..#.. .###.',
+    'J': '..### ...#. ...#. ...#. ...#. #..#. .##..',
+    'K': '#...# #..#. #.#.. ##... #.#.. #..#. #...#',
+    'L': '#.... #.... #.... #.... #.... #.... #####',
+    'M': '#...# ##.## #.#.# #.#.# #...# #...# #...#',
+    'N': '#...# #...# ##..# #.#.# #..## #...# #...#',
+    'O': '.###. #...# #...# #...# #...# #...# .###.',
+    'P': '####. #...# #...# ####. #.... #.... #....',
+    'Q': '.###. #...# #...# #...# #.#.# #..#. .##.#',
+    'R': '####. #...# #...# ####. #.#.. #..#. #...#',
+    'S': '.#### #.... #.... .###. ....# ....# ####.',
+    'T': '##### ..#.. ..#.. ..#.. ..#.. ..#.. ..#..',
+    'U': '#...# #...# #...# #...# #...# #...# .###.',
+    'V': '#...# #...# #...# #...# #...# .#.#. ..#..',
+    'W': '#...# #...# #...# #.#.# #.#.# #.#.# .#.#.',
+    'X': '#...# #...# .#.#. ..#.. .#.#. #...# #...#',
+    'Y': '#...# #...# .#.#. ..#.. ..#.. ..#.. ..#..',
+    'Z': '##### ....# ...#. ..#.. .#... #.... #####',
+    '0': '.###. #...# #..## #.#.# ##..# #...# .###.',
+    '1': '..#.. .##.. ..#.. ..#.. ..#.. ..#.. .###.',
+    '2': '.###. #...# ....# ...#. ..#.. .#... #####',
+    '3': '##### ...#. ..#.. ...#. ....# #...# .###.',
+    '4': '...#. ..##. .#.#. #..#. ##### ...#. ...#.',
+    '5': '##### #.... ####. ....# ....# #...# .###.',
+    '6': '..##. .#... #.... ####. #...# #...# .###.',
+    '7': '##### ....# ...#. ..#.. .#... .#... .#...',
+    '8': '.###. #...# #...# .###. #...# #...# .###.',
+    '9': '.###. #...# #...# .#### ....# ...#. .##..',
+    ' ': '..... ..... ..... ..... ..... ..... .....',
+    '.': '..... ..... ..... ..... ..... .##.. .##..',
+    ',': '..... ..... ..... ..... .##.. ..#.. .#...',
+    ':': '..... .##.. .##.. ..... .##.. .##.. .....',
+    '%': '##... ##..# ...#. ..#.. .#... #..## ...##',
+    '+': '..... ..#.. ..#.. ##### ..#.. ..#.. .....',
+    '-': '..... ..... ..... ##### ..... ..... .....',
+    '(': '...#. ..#.. .#... .#... .#... ..#.. ...#.',
+    ')': '.#... ..#.. ...#. ...#. ...#. ..#.. .#...',
+    '/': '..... ....# ...#. ..#.. .#... #.... .....',
+    '_': '..... ..... ..... ..... ..... ..... #####',
+    '@': '.###. #...# ....# .##.# #.#.# #.#.# .###.',
+    '·': '..... ..... ..... ..#.. ..... ..... .....',
+    '—': '..... ..... ..... ##### ..... ..... .....',
+    '?': '.###. #...# ....# ...#. ..#.. ..... ..#..',
+};
+
+const GLYPH_ROWS = 7;
+
+// A glyph plus one pixel of spacing on the right and below
+const CELL_WIDTH = 6;
+const CELL_HEIGHT = 8;
+
+const PALETTE: Color[] = ['background', 'panel', 'border', 'text', 'dim', 'better', 'worse', 'neutral'];
+
+// One palette index per pixel, row by row
+class Canvas {
+    readonly pixels: Uint8Array;
+
+    constructor(readonly width: number, readonly height: number) {
+        this.pixels = new Uint8Array(width * height);
+    }
+
+    fill(x: number, y: number, width: number, height: number, color: Color) {
+        const index = PALETTE.indexOf(color);
+        for (let row = Math.max(y, 0); row < Math.min(y + height, this.height); row++) {
+            this.pixels.fill(index, row * this.width + Math.max(x, 0), row * this.width + Math.min(x + width, this.width));
+        }
+    }
+
+    text(spans: Span[], x: number, y: number, scale: number) {
+        let left = x;
+        spans.forEach(span => {
+            for (const char of span.text.toUpperCase()) {
+                const rows = (GLYPHS[char] ?? GLYPHS['?']).split(' ');
+                rows.forEach((row, r) => {
+                    for (let c = 0; c < row.length; c++) {
+                        if (row[c] === '#') this.fill(left + c * scale, y + r * scale, scale, scale, span.tone);
+                    }
+                });
+                left += CELL_WIDTH * scale;
+            }
+        });
+    }
+
+    dashedLine(x: number, y: number, width: number, thickness: number, color: Color) {
+        for (let left = x; left < x + width; left += 3 * thickness) this.fill(left, y, Math.min(2 * thickness, x + width - left), thickness, color);
+    }
+}
+
+// Lines stack from the top, each at the largest scale up to its own that fits; the footer sits at the bottom
+export function renderOpenGraphImage(lines: ImageLine[], footer: Span[]): Uint8Array {
+    const canvas = new Canvas(IMAGE_WIDTH, IMAGE_HEIGHT);
+    const innerWidth = IMAGE_WIDTH - 2 * IMAGE_MARGIN;
+    const fit = (spans: Span[], scale: number) => {
+        const length = spans.reduce((sum, span) => sum + Array.from(span.text).length, 0);
+        return Math.max(1, Math.min(scale, Math.floor(innerWidth / (length * CELL_WIDTH))));
+    };
+
+    const inset = IMAGE_BORDER_INSET;
+    canvas.fill(inset, inset, IMAGE_WIDTH - 2 * inset, IMAGE_HEIGHT - 2 * inset, 'border');
+    canvas.fill(inset + 2, inset + 2, IMAGE_WIDTH - 2 * inset - 4, IMAGE_HEIGHT - 2 * inset - 4, 'background');
+
+    let y = IMAGE_MARGIN;
+    lines.forEach(line => {
+        const scale = fit(line.spans, line.scale);
+        canvas.text(line.spans, IMAGE_MARGIN, y, scale);
+        y += CELL_HEIGHT * scale;
+        if (line.rule) {
+            canvas.dashedLine(IMAGE_MARGIN, y + scale, innerWidth, 2, 'text');
+            y += 3 * scale;
+        }
+        y += CELL_HEIGHT * scale / 2;
+    });
+
+    const footerScale = fit(footer, 3);
+    canvas.text(footer, IMAGE_MARGIN, IMAGE_HEIGHT - IMAGE_MARGIN - GLYPH_ROWS * footerScale, footerScale);
+    return encodePng(canvas);
+}
+
+// ===== PNG ENCODING =====
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        bytes.set(part, offset);
+        offset += part.length;
+    });
+    return bytes;
+}
+
+// Length, type, data and a CRC of type and data
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const typeAndData = concatBytes([new TextEncoder().encode(type), data]);
+    const chunk = new Uint8Array(typeAndData.length + 8);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(typeAndData, 4);
+    view.setUint32(typeAndData.length + 4, crc32(typeAndData));
+    return chunk;
+}
+
+// 8-bit indexed color with the card palette; every scanline uses filter type 0
+function encodePng(canvas: Canvas): Uint8Array {
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, canvas.width);
+    headerView.setUint32(4, canvas.height);
+    header.set([8, 3, 0, 0, 0], 8);
+
+    const palette = new Uint8Array(PALETTE.flatMap(color => [1, 3, 5].map(i => parseInt(COLORS[color].slice(i, i + 2), 16))));
+
+    const scanlines = new Uint8Array((canvas.width + 1) * canvas.height);
+    for (let row = 0; row < canvas.height; row++) {
+        scanlines.set(canvas.pixels.subarray(row * canvas.width, (row + 1) * canvas.width), row * (canvas.width + 1) + 1);
+    }
+
+    return concatBytes([
+        new Uint8Array(PNG_SIGNATURE),
+        pngChunk('IHDR', header),
+        pngChunk('PLTE', palette),
+        pngChunk('IDAT', new Uint8Array(deflateSync(scanlines))),
+        pngChunk('IEND', new Uint8Array(0)),
+    ]);
+}
@@ -0,0 +1,161 @@
+// Terminal version of the comparison page, for pre-merge jobs. Prints every section with deltas against the
+// baseline and exits 1 when a gated metric regresses by more than the threshold.
+//
+//   bun src/cli.ts [public/data.json]          every branch against the baseline branch
+//   bun src/cli.ts before.json after.json      every branch against itself in the earlier snapshot
+//
+//   --baseline <branch>       baseline for a single snapshot (default: master, else the first branch)
+//   --gate <key>[:<metric>]   section or table key to fail on, repeatable; "*" gates every directed metric;
+//                             engagement sections take a mode instead of a metric (overall, chill_mode, experimental_mode)
+//   --threshold <n>           allowed regression, in pp for rates and column units otherwise (default: 0)
+//   --relative                read --threshold as percent of the baseline value instead
+import { readFileSync } from 'node:fs';
+import {
+    type Branch, type ExportSection, type FullData, type Regression, type Snapshot, branchLabel,
+    collectExportSections, findRegressions, isObject, measureSnapshot, parseRegressionGate,
+} from './report';
+import {
+    DEFAULT_BASELINE, exportTextRows, formatExportDelta, formatFixed, formatMeasurementValue, formatMetricName,
+} from './render';
+
+const DEFAULT_DATA_FILE = 'public/data.json';
+
+// A plain decimal; "2pp" or "1e" would otherwise be read as a number and gate on the wrong amount
+const THRESHOLD_PATTERN = /^\d*\.?\d+$/;
+
+interface Options {
+    files: string[];
+    baseline: string | null; // null until --baseline names one, so only the default may fall back
+    gates: string[];
+    threshold: number;
+    relative: boolean;
+}
+
+function main() {
+    try {
+        const options = parseArgs(process.argv.slice(2));
+        const snapshots = options.files.map(loadSnapshot);
+        const comparisons = snapshots.length === 1
+            ? [branchesOfSnapshot(snapshots[0], options.baseline)]
+            : branchesAcrossSnapshots(snapshots[0], snapshots[1]);
+
+        const gates = options.gates.map(parseRegressionGate);
+        const regressions = comparisons.flatMap(branches => {
+            const found = findRegressions(branches, gates, options.threshold, options.relative);
+            console.log(renderReport(branches));
+            return found;
+        });
+
+        if (gates.length === 0) return;
+        console.log(renderRegressions(regressions, options));
+        if (regressions.length > 0) process.exitCode = 1;
+    } catch (e) {
+        console.error(e instanceof Error ? e.message : e);
+        process.exitCode = 2;
+    }
+}
+
+function parseArgs(args: string[]): Options {
+    const options: Options = { files: [], baseline: null, gates: [], threshold: 0, relative: false };
+    const value = (flag: string) => {
+        const next = args.shift();
+        if (next === undefined) throw new Error(`${flag} needs a value`);
+        return next;
+    };
+
+    while (args.length > 0) {
+        const arg = args.shift()!;
+        switch (arg) {
+            case '--baseline': options.baseline = value(arg); break;
+            case '--gate': options.gates.push(value(arg)); break;
+            case '--threshold': {
+                const threshold = value(arg);
+                if (!THRESHOLD_PATTERN.test(threshold)) throw new Error(`--threshold must be a non-negative number, got "${threshold}"`);
+                options.threshold = Number(threshold);
+                break;
+            }
+            case '--relative': options.relative = true; break;
+            default:
+                if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+                options.files.push(arg);
+        }
+    }
+
+    if (options.files.length > 2) throw new Error('Pass one data.json, or two snapshots to compare');
+    if (options.files.length === 0) options.files.push(DEFAULT_DATA_FILE);
+    return options;
+}
+
+// Same checks as the page's init: only an unusable top level is fatal, the rest is reported and rendered around
+function loadSnapshot(file: string): Snapshot {
+    const json: FullData = JSON.parse(readFileSync(file, 'utf8'));
+    if (!isObject(json) || !isObject(json.data)) throw new Error(`${file} has no data object`);
+    if (Object.keys(json.data).length === 0) throw new Error(`No branches in ${file}`);
+
+    const snapshot = measureSnapshot(json);
+    snapshot.issues.forEach(issue => console.warn(`${file}: ${issue}`));
+    Object.entries(snapshot.reports).forEach(([key, report]) => {
+        report.parseIssues.forEach(issue => console.warn(`${file}: data.${key}.${issue}`));
+    });
+    return snapshot;
+}
+
+// Baseline first, then the other branches in the order the scraper wrote them. A --baseline that names no
+// branch is an error; only the default falls back to the first branch
+function branchesOfSnapshot(snapshot: Snapshot, baseline: string | null): Branch[] {
+    const keys = Object.keys(snapshot.reports);
+    let baselineKey = baseline ?? DEFAULT_BASELINE;
+    if (!keys.includes(baselineKey)) {
+        if (baseline !== null) throw new Error(`--baseline ${baseline}: no such branch (${keys.join(', ')})`);
+        console.warn(`No "${DEFAULT_BASELINE}" branch, using ${keys[0]} as the baseline`);
+        baselineKey = keys[0];
+    }
+    return [baselineKey, ...keys.filter(key => key !== baselineKey)].map(key => ({ key, report: snapshot.reports[key] }));
+}
+
+// One before/after pair per branch present in both snapshots
+function branchesAcrossSnapshots(before: Snapshot, after: Snapshot): Branch[][] {
+    const keys = Object.keys(after.reports).filter(key => key in before.reports);
+    if (keys.length === 0) throw new Error('The two snapshots have no branch in common');
+    return keys.map(key => [
+        { key: `${key}@before`, report: before.reports[key] },
+        { key: `${key}@after`, report: after.reports[key] },
+    ]);
+}
+
+// ===== ASCII REPORT =====
+
+function renderAsciiTable(rows: string[][], rightAligned: (column: number) => boolean): string {
+    const widths = rows[0].map((_, c) => Math.max(...rows.map(row => row[c].length)));
+    const pad = (field: string, c: number) => rightAligned(c) ? field.padStart(widths[c]) : field.padEnd(widths[c]);
+    const [header, ...body] = rows.map(row => row.map(pad).join(' | '));
+    return [header, widths.map(width => '-'.repeat(width)).join('-+-'), ...body].join('\n');
+}
+
+// The page's export rows, so values, ratios and deltas read the same in the terminal
+function renderSection(branches: Branch[], section: ExportSection): string {
+    return `${section.title}\n${renderAsciiTable(exportTextRows(branches, section), column => column >= 2)}`;
+}
+
+function renderReport(branches: Branch[]): string {
+    const [baseline, ...challengers] = branches;
+    const title = `${challengers.map(branchLabel).join(', ')} vs ${branchLabel(baseline)}`;
+    const sections = collectExportSections(branches, 'page')
+        .filter(section => section.rows.length > 0)
+        .map(section => renderSection(branches, section));
+    return [`===== ${title} =====`, ...sections, ''].join('\n\n');
+}
+
+function renderRegressions(regressions: Regression[], options: Options): string {
+    const allowed = `${options.threshold}${options.relative ? '% of the baseline' : ''}`;
+    if (regressions.length === 0) return `No gated metric regressed by more than ${allowed}.`;
+
+    const lines = regressions.map(({ branchKey, section, id, metric, baselineCell, cell, amount }) => {
+        const change = formatExportDelta(baselineCell, cell) + (options.relative ? `, ${formatFixed(amount, 1)}% worse` : '');
+        return `  ${branchKey.toUpperCase()} · ${section} · ${id} · ${formatMetricName(metric)}: `
+            + `${formatMeasurementValue(baselineCell)} -> ${formatMeasurementValue(cell)} (${change})`;
+    });
+    return [`${regressions.length} gated regression(s) beyond ${allowed}:`, ...lines].join('\n');
+}
+
+main();
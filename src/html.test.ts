@@ -0,0 +1,21 @@
+import { describe, expect, test } from 'bun:test';
+import { html, safeUrl } from './html';
+
+describe('html', () => {
+    test('escapes interpolated text but not nested markup', () => {
+        const name = '<img src=x onerror=alert(1)>';
+        expect(html`<b>${name}</b>${html`<i>ok</i>`}`.markup).toBe('<b>&lt;img src=x onerror=alert(1)&gt;</b><i>ok</i>');
+    });
+});
+
+describe('safeUrl', () => {
+    test('keeps http(s) and relative links', () => {
+        expect(safeUrl('https://commaai.github.io/model_reports/')).toBe('https://commaai.github.io/model_reports/');
+        expect(safeUrl('/history/index.json')).toBe('/history/index.json');
+    });
+
+    test('drops other schemes, however they are disguised', () => {
+        ['javascript:alert(1)', ' JavaScript:alert(1)', 'java\tscript:alert(1)', '\x01javascript:alert(1)', 'data:text/html,x']
+            .forEach(url => expect(safeUrl(url)).toBe('#'));
+    });
+});
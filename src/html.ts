@@ -0,0 +1,44 @@
+// Markup built with the html`` tag. Every value interpolated into it is escaped unless it is itself Html,
+// so scraped or locally loaded report content always ends up as text, never as markup.
+
+export class Html {
+    constructor(readonly markup: string) {}
+}
+
+// Arrays are concatenated, so mapped rows need no .join(''); null, undefined and false render nothing
+export type Interpolation = Html | string | number | boolean | null | undefined | Interpolation[];
+
+const ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+export function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => ESCAPES[char]);
+}
+
+function interpolate(value: Interpolation): string {
+    if (value instanceof Html) return value.markup;
+    if (Array.isArray(value)) return value.map(interpolate).join('');
+    if (value === null || value === undefined || value === false) return '';
+    return escapeHtml(String(value));
+}
+
+export function html(strings: TemplateStringsArray, ...values: Interpolation[]): Html {
+    return new Html(strings.reduce((markup, string, i) => markup + interpolate(values[i - 1]) + string));
+}
+
+export const EMPTY_HTML = new Html('');
+
+// Only http(s) and same-site links survive; anything else (javascript:, data:) becomes "#". The URL parser reads the
+// scheme the way the browser will (control characters, tabs, newlines); the fixed base keeps it usable at build time.
+export function safeUrl(url: string): string {
+    try {
+        const { protocol } = new URL(url, 'http://localhost/');
+        return protocol === 'http:' || protocol === 'https:' ? url : '#';
+    } catch {
+        return '#';
+    }
+}
+
+// The only place rendered markup reaches the DOM
+export function setHtml(element: Element, content: Html) {
+    element.innerHTML = content.markup;
+}
@@ -0,0 +1,208 @@
+// Vite build step that renders the default view of public/data.json into index.html, so link previews, readers
+// without JavaScript and search engines get the whole comparison; app.ts renders over it once the data loads.
+// The same step writes per-branch status badges and an Open Graph card per challenger:
+//
+//   badges/<branch>-engagement-time.svg       "WMI engagement 41.2% (+7.4pp)", colored like the page's deltas
+//   badges/<branch>-engagement-distance.svg   the same for engagement by distance
+//   og/<branch>.png                           1200×630 card: headline rates and the scoreboard tally
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Plugin } from 'vite';
+import { type Html, escapeHtml } from './html';
+import {
+    type Branch, type EngagementSectionKey, type FullData, type HistoryIndex, type Snapshot, branchLabel,
+    diffSignificance, estimateRate, historyEntries, isObject, measureSnapshot, metricDirection,
+} from './report';
+import {
+    collectMatchups, deltaTone, formatDelta, formatFixed, pageTitle, renderComparisonSections, resolveBaseline,
+    resolveTieThreshold, slugify,
+} from './render';
+import { type ImageLine, type Span, renderBadge, renderOpenGraphImage } from './badges';
+
+interface Asset {
+    fileName: string;
+    source: string | Uint8Array;
+}
+
+interface Prerendered {
+    title: string;
+    updated: string;
+    description: string | null;
+    sections: Record<string, Html>;
+    assets: Asset[];
+    image: string | null; // card of the first challenger, used for the page's own preview
+}
+
+const HEADLINES: { sectionKey: EngagementSectionKey; slug: string; label: string }[] = [
+    { sectionKey: 'engagement_time', slug: 'time', label: 'engagement' },
+    { sectionKey: 'engagement_distance', slug: 'distance', label: 'engagement (distance)' },
+];
+
+export function prerender(): Plugin {
+    let publicDir = 'public';
+    let page: Prerendered | null = null;
+
+    return {
+        name: 'prerender',
+        apply: 'build',
+        configResolved(config) {
+            publicDir = config.publicDir;
+        },
+        // A missing or broken data.json still builds; the page then starts empty, as it did before
+        buildStart() {
+            try {
+                page = prerenderPage(loadSnapshots(publicDir));
+            } catch (e) {
+                page = null;
+                this.warn(`index.html not prerendered: ${e instanceof Error ? e.message : e}`);
+            }
+        },
+        transformIndexHtml(indexHtml) {
+            return page ? fillIndexHtml(indexHtml, page) : indexHtml;
+        },
+        generateBundle() {
+            page?.assets.forEach(({ fileName, source }) => this.emitFile({ type: 'asset', fileName, source }));
+        },
+    };
+}
+
+// ===== DATA =====
+
+function readJson(file: string): unknown {
+    return JSON.parse(readFileSync(file, 'utf8'));
+}
+
+// The snapshots the page loads, oldest first: the history data.json links to, then data.json itself
+function loadSnapshots(publicDir: string): Snapshot[] {
+    const json = readJson(join(publicDir, 'data.json')) as FullData;
+    if (!isObject(json) || !isObject(json.data)) throw new Error('data.json has no data object');
+    if (Object.keys(json.data).length === 0) throw new Error('No branches in data.json');
+
+    const indexFile = join(publicDir, 'history', 'index.json');
+    const index = existsSync(indexFile) ? readJson(indexFile) as HistoryIndex : null;
+    const earlier = isObject(index) && Array.isArray(index.snapshots)
+        ? historyEntries(index, json)
+            .map(entry => join(publicDir, 'history', entry.file))
+            .filter(file => existsSync(file))
+            .map(file => readJson(file) as FullData)
+            .filter(snapshot => isObject(snapshot) && isObject(snapshot.data))
+        : [];
+    return [...earlier, json].map(measureSnapshot);
+}
+
+// Absolute, since the build has no "now" the page will share
+function formatTimestamp(timestamp: string): string {
+    if (Number.isNaN(Date.parse(timestamp))) return 'unknown';
+    return `${new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+// "41.2% (+7.4pp)" toned like the page's delta for a challenger, the bare rate for the baseline
+function engagementHeadline(baseline: Branch, branch: Branch, sectionKey: EngagementSectionKey): Span | null {
+    const rate = branch.report.sections[sectionKey]?.overall;
+    if (!rate || rate.value === null) return null;
+
+    const baselineRate = baseline.report.sections[sectionKey]?.overall;
+    if (branch === baseline || !baselineRate || baselineRate.value === null) {
+        return { text: `${formatFixed(rate.value, 1)}%`, tone: 'text' };
+    }
+    const significance = diffSignificance(estimateRate(baselineRate), estimateRate(rate));
+    return {
+        text: `${formatFixed(rate.value, 1)}% (${formatDelta(baselineRate.value, rate.value, 'percent')})`,
+        tone: deltaTone(metricDirection(sectionKey, 'overall'), baselineRate.value, rate.value, significance),
+    };
+}
+
+// ===== PAGE =====
+
+function prerenderPage(history: Snapshot[]): Prerendered {
+    const snapshot = history[history.length - 1];
+    const keys = Object.keys(snapshot.reports);
+    const baselineKey = resolveBaseline(keys);
+    const branches = [baselineKey, ...keys.filter(key => key !== baselineKey)].map(key => ({ key, report: snapshot.reports[key] }));
+    const [baseline, ...challengers] = branches;
+
+    const badges = branches.flatMap(branch => HEADLINES.flatMap(({ sectionKey, slug, label }) => {
+        const headline = engagementHeadline(baseline, branch, sectionKey);
+        return headline
+            ? [{ fileName: `badges/${slugify(branch.key)}-engagement-${slug}.svg`, source: renderBadge(`${branchLabel(branch)} ${label}`, headline) }]
+            : [];
+    }));
+    const cards = challengers.map(challenger => ({
+        fileName: `og/${slugify(challenger.key)}.png`,
+        source: renderCard(baseline, challenger, snapshot.timestamp),
+    }));
+    const summary = challengers.flatMap(challenger => {
+        const headline = engagementHeadline(baseline, challenger, 'engagement_time');
+        return headline ? [`${branchLabel(challenger)} engagement ${headline.text}`] : [];
+    });
+
+    return {
+        title: pageTitle(snapshot),
+        updated: formatTimestamp(snapshot.timestamp),
+        description: summary.length > 0 ? `${summary.join(' · ')} vs ${branchLabel(baseline)}.` : null,
+        sections: renderComparisonSections(snapshot, history, branches, []),
+        assets: [...badges, ...cards],
+        image: cards[0]?.fileName ?? null,
+    };
+}
+
+function renderCard(baseline: Branch, challenger: Branch, timestamp: string): Uint8Array {
+    const matchups = collectMatchups([baseline, challenger], resolveTieThreshold());
+    const count = (outcome: string) => matchups.filter(matchup => matchup.outcome === outcome).length;
+
+    const lines: ImageLine[] = [
+        { spans: [{ text: 'modelplayoffs.com', tone: 'dim' }], scale: 4 },
+        { spans: [{ text: `${branchLabel(challenger)} vs ${branchLabel(baseline)}`, tone: 'text' }], scale: 10, rule: true },
+        ...HEADLINES.flatMap(({ sectionKey, label }) => {
+            const headline = engagementHeadline(baseline, challenger, sectionKey);
+            return headline ? [{ spans: [{ text: `${label} `, tone: 'dim' as const }, headline], scale: 5 }] : [];
+        }),
+        {
+            spans: [
+                { text: 'scoreboard ', tone: 'dim' },
+                { text: `${count('win')}W`, tone: 'better' },
+                { text: ' · ', tone: 'dim' },
+                { text: `${count('loss')}L`, tone: 'worse' },
+                { text: ' · ', tone: 'dim' },
+                { text: `${count('tie')}T`, tone: 'neutral' },
+            ],
+            scale: 5,
+        },
+    ];
+    return renderOpenGraphImage(lines, [{ text: `last update ${formatTimestamp(timestamp)}`, tone: 'dim' }]);
+}
+
+// ===== INDEX.HTML =====
+
+// Replaces the contents of the element with this id; in index.html those hold only a placeholder
+function fillElement(page: string, id: string, content: string): string {
+    const element = new RegExp(`(<(\\w+)\\b[^>]*\\bid="${id}"[^>]*>)[\\s\\S]*?(</\\2>)`);
+    return page.replace(element, (_, open: string, _tag: string, close: string) => open + content + close);
+}
+
+function setMeta(page: string, attribute: 'name' | 'property', key: string, content: string): string {
+    const existing = new RegExp(`<meta ${attribute}="${key}" content="[^"]*">`);
+    const meta = `<meta ${attribute}="${key}" content="${escapeHtml(content)}">`;
+    return existing.test(page) ? page.replace(existing, () => meta) : page.replace('</head>', () => `    ${meta}\n</head>`);
+}
+
+function fillIndexHtml(indexHtml: string, page: Prerendered): string {
+    let filled = Object.entries(page.sections).reduce((markup, [id, section]) => fillElement(markup, id, section.markup), indexHtml);
+    filled = fillElement(filled, 'page-title', escapeHtml(page.title));
+    filled = fillElement(filled, 'timestamp', escapeHtml(`Last Update: ${page.updated}`));
+
+    if (page.description) {
+        filled = setMeta(filled, 'name', 'description', page.description);
+        filled = setMeta(filled, 'property', 'og:description', page.description);
+        filled = setMeta(filled, 'name', 'twitter:description', page.description);
+    }
+    if (page.image) {
+        // Previews need an absolute image URL, resolved against the canonical og:url
+        const siteUrl = /<meta property="og:url" content="([^"]*)">/.exec(filled)?.[1];
+        const image = siteUrl ? new URL(page.image, siteUrl).href : `/${page.image}`;
+        filled = setMeta(filled, 'property', 'og:image', image);
+        filled = setMeta(filled, 'name', 'twitter:image', image);
+        filled = setMeta(filled, 'name', 'twitter:card', 'summary_large_image');
+    }
+    return filled;
+}
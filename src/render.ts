@@ -0,0 +1,1468 @@
+// Markup of every comparison section as escaped Html, with no DOM access: the page (app.ts) mounts it and binds
+// its controls, and the build (prerender.ts) writes the same markup into index.html.
+import { type Html, type Interpolation, EMPTY_HTML, html, safeUrl } from './html';
+import {
+    type EngagementSectionKey, type SegmentField, type MeasurementKind, type Measurement, type MeasuredEngagement,
+    type MeasuredReport, type Snapshot, type Branch, ENGAGEMENT_SECTION_KEYS, ENGAGEMENT_FIELDS, type EngagementField,
+    branchLabel, scopedIssues, emptyMeasurement, parseHeaderUnit, type MissingKind, MISSING_LABELS, type JoinedTable,
+    findRow, joinTables, missingKind, calculateDiff, type MetricDirection, DIRECTION_LABELS, metricDirection,
+    directionScore, type Interval, type RateEstimate, type DiffSignificance, estimateRate, diffSignificance,
+    type ExportCell, type ExportSection, diffSnapshots,
+} from './report';
+
+// One value per snapshot, oldest first; null where the snapshot lacks the value
+type Series = (number | null)[];
+
+export const DEFAULT_BASELINE = 'master';
+export const BASELINE_STORAGE_KEY = 'baseline';
+const DEFAULT_TIE_THRESHOLD = 1; // Relative to the baseline value, in percent
+export const TIE_THRESHOLD_STORAGE_KEY = 'tieThreshold';
+
+// Settings live in localStorage; the build-time prerender has none and renders every default
+function storedSetting(key: string): string | null {
+    return typeof localStorage === 'undefined' ? null : localStorage.getItem(key);
+}
+
+// ===== PAGE =====
+
+// Markup of every page element the comparison fills, keyed by element id. Branches in localKeys were loaded in the browser
+export function renderComparisonSections(snapshot: Snapshot, history: Snapshot[], branches: Branch[], localKeys: string[]): Record<string, Html> {
+    const { issues } = snapshot;
+    return {
+        'source-links': renderHTMLSafely('Data sources', () => renderSourceLinks(branches)),
+        'data-issues': renderHTMLSafely('Data issues', () => renderUnscopedIssues(issues)),
+        'changes-section': renderHTMLSafely('What changed', () => renderChangelog(history, localKeys)),
+        'scoreboard-section': renderHTMLSafely('Playoff scoreboard', () => renderScoreboard(branches)),
+        'summary-section': renderHTMLSafely('Engagement rate analysis', () => renderEngagementRateAnalysis(branches, history, issues)),
+        'trend-section': renderHTMLSafely('Engagement trends', () => renderTrendAnalysis(branches, history)),
+        'comparison-section': renderHTMLSafely('Comparison tables', () => renderAllComparisonTables(branches, history, issues)),
+        'page-export': renderExportControl('page'),
+    };
+}
+
+// "master vs wmi_driving", from the branch names in the reports
+export function pageTitle(snapshot: Snapshot): string {
+    return Object.values(snapshot.reports)
+        .map(report => report.metadata.branch_name || 'unknown')
+        .join(' vs ');
+}
+
+// Keeps one failing section from taking the rest of the page down with it
+function renderHTMLSafely(title: string, render: () => Html): Html {
+    try {
+        return render();
+    } catch (e) {
+        console.error(e);
+        return renderSectionError(title, e);
+    }
+}
+
+export function renderSectionError(title: string, error: unknown): Html {
+    return renderDataIssues(`${title} failed to render`, [String(error)]);
+}
+
+// ===== HELPER FUNCTIONS =====
+
+export function resolveBaseline(branchKeys: string[]): string {
+    const stored = storedSetting(BASELINE_STORAGE_KEY);
+    if (stored && branchKeys.includes(stored)) return stored;
+    return branchKeys.includes(DEFAULT_BASELINE) ? DEFAULT_BASELINE : branchKeys[0];
+}
+
+function historySeries(history: Snapshot[], branchKey: string, pick: (report: MeasuredReport) => number | null | undefined): Series {
+    return history.map(snapshot => {
+        const report = snapshot.reports[branchKey];
+        const val = report ? pick(report) : null;
+        return typeof val === 'number' && Number.isFinite(val) ? val : null;
+    });
+}
+
+function tableCellSeries(history: Snapshot[], branchKey: string, tableKey: string, rowId: string, metricName: string): Series {
+    return historySeries(history, branchKey, report => {
+        const table = report.tables[tableKey];
+        return table ? findRow(table, rowId)?.cells[metricName]?.value : null;
+    });
+}
+
+// ===== PREFERENCES =====
+
+// "source" keeps what the reports use: miles for distance, metres for lane offsets
+type DistanceSystem = 'source' | 'metric' | 'imperial';
+type TimeUnit = 'minutes' | 'hours';
+
+export interface Preferences {
+    distance: DistanceSystem;
+    time: TimeUnit;
+    locale: string; // '' follows the browser
+}
+
+export const PREFERENCES_STORAGE_KEY = 'preferences';
+export const DEFAULT_PREFERENCES: Preferences = { distance: 'source', time: 'minutes', locale: '' };
+export const DISTANCE_OPTIONS: { value: DistanceSystem; label: string }[] = [
+    { value: 'source', label: 'as reported (mi, m)' },
+    { value: 'metric', label: 'metric (km, m)' },
+    { value: 'imperial', label: 'imperial (mi, in)' },
+];
+export const TIME_OPTIONS: TimeUnit[] = ['minutes', 'hours'];
+export const LOCALE_OPTIONS = ['', 'en-US', 'en-GB', 'de-DE', 'fr-FR', 'nl-NL', 'sv-SE', 'ja-JP'];
+
+const KM_PER_MILE = 1.609344;
+const INCHES_PER_METRE = 39.3701;
+
+export function resolvePreferences(): Preferences {
+    try {
+        const stored = JSON.parse(storedSetting(PREFERENCES_STORAGE_KEY) ?? '{}');
+        return {
+            distance: DISTANCE_OPTIONS.find(option => option.value === stored.distance)?.value ?? DEFAULT_PREFERENCES.distance,
+            time: TIME_OPTIONS.find(option => option === stored.time) ?? DEFAULT_PREFERENCES.time,
+            locale: LOCALE_OPTIONS.includes(stored.locale) ? stored.locale : DEFAULT_PREFERENCES.locale,
+        };
+    } catch {
+        return DEFAULT_PREFERENCES;
+    }
+}
+
+function preferredLocale(): string | undefined {
+    return resolvePreferences().locale || undefined;
+}
+
+function formatNumber(num: number, options?: Intl.NumberFormatOptions): string {
+    return num.toLocaleString(preferredLocale(), options);
+}
+
+export function formatFixed(num: number, digits: number): string {
+    return formatNumber(num, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+}
+
+// Rewrites a quantity in one of the units the scraper emits ("mins", "miles", header "(m)") into the preferred one
+function convertQuantity(num: number, unit: string | null): { num: number; unit: string | null } {
+    const { distance, time } = resolvePreferences();
+    switch (unit) {
+        case 'mins': return time === 'hours' ? { num: num / 60, unit: 'hrs' } : { num, unit };
+        case 'miles': return distance === 'metric' ? { num: num * KM_PER_MILE, unit: 'km' } : { num, unit };
+        case 'm': return distance === 'imperial' ? { num: num * INCHES_PER_METRE, unit: 'in' } : { num, unit };
+        default: return { num, unit };
+    }
+}
+
+// "Amplitude Engaged (m)" -> "Amplitude Engaged (in)" when lane offsets are shown in inches
+export function formatMetricName(metricName: string): string {
+    const unit = parseHeaderUnit(metricName);
+    return unit ? metricName.replace(/\(([^)]+)\)\s*$/, `(${convertQuantity(1, unit).unit})`) : metricName;
+}
+
+// Spelled-out unit of a breakdown's exposure, for prose such as the worked example
+function exposureUnit(contextType: 'time' | 'distance'): string {
+    const { distance, time } = resolvePreferences();
+    if (contextType === 'time') return time;
+    return distance === 'metric' ? 'km' : 'miles';
+}
+
+// ===== DELTAS =====
+
+export type DeltaMode = 'abs' | 'rel';
+
+export const DELTA_MODE_STORAGE_KEY = 'deltaMode';
+
+export function resolveDeltaMode(): DeltaMode {
+    return storedSetting(DELTA_MODE_STORAGE_KEY) === 'rel' ? 'rel' : 'abs';
+}
+
+// Absolute differences are percentage points for rates and carry the header's unit otherwise;
+// relative ones are percent of the baseline, "+∞%" for any change from a zero baseline (as the sort and
+// threshold count it). "—" only when nothing changed
+export function formatDelta(baselineVal: number, val: number, kind: MeasurementKind, unit: string | null = null): string {
+    const { diff, diffPrefix } = calculateDiff(baselineVal, val);
+    if (diff === 0) return '—';
+
+    if (resolveDeltaMode() === 'rel') {
+        return baselineVal === 0 ? `${diff > 0 ? '+' : '-'}∞%` : `${diffPrefix}${formatFixed(diff / Math.abs(baselineVal) * 100, 1)}%`;
+    }
+    switch (kind) {
+        case 'percent': return `${diffPrefix}${formatFixed(diff, 1)}pp`;
+        case 'count': return `${diffPrefix}${formatNumber(diff)}`;
+        default: {
+            const converted = convertQuantity(diff, unit);
+            return `${diffPrefix}${formatNumber(converted.num, { maximumFractionDigits: 4 })}${converted.unit ? ` ${converted.unit}` : ''}`;
+        }
+    }
+}
+
+// ===== METRIC DIRECTIONS =====
+
+export type DeltaTone = 'better' | 'worse' | 'neutral';
+
+const DELTA_TONE_CLASSES: Record<DeltaTone, string> = { better: 'text-green-500', worse: 'text-red-500', neutral: 'text-neutral-500' };
+
+// Shared by the rendered rows and the scoreboard links that jump to them
+function rowAnchor(...parts: string[]): string {
+    return 'row-' + parts.map(slugify).join('--');
+}
+
+export function slugify(part: string): string {
+    return part.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+// One class per value, baseline first: only a strict leader in the metric's direction is brightened
+function highlightClasses(values: (number | null)[], direction: MetricDirection): string[] {
+    const scores = values.map(val => val === null ? null : directionScore(direction, val));
+    return scores.map((score, i) => {
+        const isLeader = score !== null && scores.every((other, j) => j === i || other === null || score > other);
+        if (!isLeader) return 'opacity-60';
+        return i === 0 ? 'opacity-80' : 'opacity-90';
+    });
+}
+
+// Neutral when the metric has no better direction, nothing changed or the difference is not significant
+export function deltaTone(direction: MetricDirection, baselineVal: number, val: number, significance: DiffSignificance | null = null): DeltaTone {
+    const baselineScore = directionScore(direction, baselineVal);
+    const score = directionScore(direction, val);
+    if (baselineScore === null || score === null || score === baselineScore) return 'neutral';
+    if (significance && !significance.significant) return 'neutral';
+    return score > baselineScore ? 'better' : 'worse';
+}
+
+// Green for an improvement over the baseline, red for a regression; grey when neutral or not significant
+function deltaClass(direction: MetricDirection, baselineVal: number, val: number, significance: DiffSignificance | null = null): string {
+    return DELTA_TONE_CLASSES[deltaTone(direction, baselineVal, val, significance)];
+}
+
+function deltaTitle(direction: MetricDirection, baselineVal: number, val: number, baseline: Branch): string {
+    const baselineScore = directionScore(direction, baselineVal);
+    const score = directionScore(direction, val);
+    if (baselineScore === null || score === null || score === baselineScore) return DIRECTION_LABELS[direction];
+
+    const verdict = score > baselineScore ? 'improvement' : 'regression';
+    return `${DIRECTION_LABELS[direction]}: ${verdict} vs ${branchLabel(baseline)}`;
+}
+
+// ===== STATISTICS =====
+
+function formatInterval(interval: Interval, signed: boolean): string {
+    const format = (val: number) => `${signed && val > 0 ? '+' : ''}${formatFixed(val, 1)}`;
+    return `[${format(interval.low)}, ${format(interval.high)}]`;
+}
+
+function renderRateInterval(estimate: RateEstimate | null): Html {
+    if (!estimate) return EMPTY_HTML;
+    return html`<div class="text-[8px] opacity-40 tabular-nums leading-tight" title="95% confidence interval">${formatInterval(estimate.interval, false)}</div>`;
+}
+
+// Non-significant differences lose the bold treatment so small buckets don't read like headline results
+function significanceClass(significance: DiffSignificance | null): string {
+    return significance && !significance.significant ? 'font-normal opacity-50' : 'font-bold';
+}
+
+function renderSignificanceNote(significance: DiffSignificance | null): Html {
+    if (!significance) return EMPTY_HTML;
+
+    const interval = formatInterval(significance.interval, true);
+    if (significance.significant) {
+        return html`<div class="text-[8px] opacity-60 tabular-nums leading-tight" title="95% confidence interval of the difference">${interval}</div>`;
+    }
+    return html`
+        <div class="text-[8px] leading-tight" title="95% confidence interval of the difference includes zero: ${interval}">
+            <span class="px-1 border border-dashed border-neutral-500 uppercase tracking-wider">n.s.</span>
+        </div>
+    `;
+}
+
+// ===== MIX ADJUSTMENT =====
+
+export type MixStrategy = 'mode' | 'speed';
+
+// One slice of driving (a mode, or a speed bucket within a mode) with each branch's rate in it
+interface MixStratum {
+    label: string;
+    measurements: Measurement[];
+}
+
+interface MixAdjustment {
+    strategy: MixStrategy;
+    weights: { label: string; weight: number }[];
+    rates: (number | null)[];
+}
+
+export const ADJUST_SPEED_STORAGE_KEY = 'adjustSpeedBuckets';
+
+function resolveAdjustSpeed(): boolean {
+    return storedSetting(ADJUST_SPEED_STORAGE_KEY) === 'true';
+}
+
+// One adjustment is shown per breakdown: speed buckets when asked for and available, the mode mix otherwise
+export function shownMixStrategy(available: MixStrategy[], adjustSpeed: boolean): MixStrategy {
+    return adjustSpeed && available.includes('speed') ? 'speed' : 'mode';
+}
+
+function stratumRate(measurement: Measurement): number | null {
+    if (measurement.numerator !== null && measurement.denominator) return measurement.numerator / measurement.denominator * 100;
+    return measurement.kind === 'percent' ? measurement.value : null;
+}
+
+// Direct standardization: every branch's stratum rates weighted by the pooled exposure of all branches.
+// A branch missing a stratum that carries weight gets no adjusted rate rather than a silently skewed one
+function standardizeRates(strategy: MixStrategy, strata: MixStratum[]): MixAdjustment | null {
+    const exposures = strata.map(stratum => stratum.measurements.reduce((sum, measurement) => sum + (measurement.denominator ?? 0), 0));
+    const total = exposures.reduce((sum, exposure) => sum + exposure, 0);
+    if (strata.length === 0 || total <= 0) return null;
+
+    const weights = strata.map((stratum, i) => ({ label: stratum.label, weight: exposures[i] / total }));
+    const rates = strata[0].measurements.map((_, b) => {
+        let rate = 0;
+        for (let i = 0; i < strata.length; i++) {
+            if (weights[i].weight === 0) continue;
+            const stratumVal = stratumRate(strata[i].measurements[b]);
+            if (stratumVal === null) return null;
+            rate += weights[i].weight * stratumVal;
+        }
+        return rate;
+    });
+
+    return { strategy, weights, rates };
+}
+
+function modeStrata(branches: Branch[], sectionKey: EngagementSectionKey): MixStratum[] {
+    return ENGAGEMENT_FIELDS.filter(({ field }) => field !== 'overall').map(({ field, label }) => ({
+        label,
+        measurements: branches.map(branch => branch.report.sections[sectionKey]?.[field] ?? emptyMeasurement('')),
+    }));
+}
+
+// Every speed bucket × mode cell of speed_bucket_engagement_<time|distance>, when the branches report one
+function speedBucketStrata(branches: Branch[], contextType: 'time' | 'distance'): MixStratum[] {
+    const joined = joinTables(branches).find(table => table.key === `speed_bucket_engagement_${contextType}`);
+    if (!joined) return [];
+
+    return joined.metricKeys.flatMap(metric => joined.rowIds.map(rowId => ({
+        label: `${rowId} · ${metric}`,
+        measurements: joined.tables.map(table => (table && findRow(table, rowId)?.cells[metric]) || emptyMeasurement('')),
+    })));
+}
+
+function renderAdjustedRate(adjustment: MixAdjustment, i: number, direction: MetricDirection, hidden: boolean): Html {
+    const rate = adjustment.rates[i];
+    const baselineRate = adjustment.rates[0];
+    let deltaHTML = EMPTY_HTML;
+    if (i > 0 && rate !== null && baselineRate !== null) {
+        deltaHTML = html`<span class="${deltaClass(direction, baselineRate, rate)}">${formatDelta(baselineRate, rate, 'percent')}</span>`;
+    }
+
+    return html`
+        <div data-adjustment="${adjustment.strategy}" class="text-[10px] mt-2 tabular-nums ${hidden ? 'hidden' : ''}" title="Rate at the common mix described below">
+            <span class="opacity-50 uppercase tracking-wider">adjusted</span>
+            <span class="font-bold">${rate !== null ? `${formatFixed(rate, 1)}%` : '—'}</span>
+            ${deltaHTML}
+        </div>
+    `;
+}
+
+function renderAdjustmentNote(adjustment: MixAdjustment, contextType: 'time' | 'distance', hidden: boolean): Html {
+    const unit = exposureUnit(contextType);
+    const mix = adjustment.weights
+        .filter(({ weight }) => weight > 0)
+        .map(({ label, weight }) => `${label} ${formatFixed(weight * 100, 1)}%`)
+        .join(', ');
+    const [strataDesc, mixDesc] = adjustment.strategy === 'mode'
+        ? ['per-mode rates', 'mode']
+        : ['per-mode rates within each speed bucket', 'mode and speed'];
+
+    return html`
+        <div data-adjustment="${adjustment.strategy}" class="${hidden ? 'hidden' : ''}">
+            <strong>Adjusted:</strong> each branch's ${strataDesc} reweighted to the pooled mix of all branches
+            (${mix} of ${unit}), so the comparison no longer depends on each branch's ${mixDesc} mix.
+        </div>
+    `;
+}
+
+// Localizes every number in the string while keeping the number of decimals it was scraped with
+function formatNumbersInString(str: string): string {
+    return str.replace(/\d+(\.\d+)?/g, (match) => formatFixed(Number(match), match.split('.')[1]?.length ?? 0));
+}
+
+function formatRatioPart(num: number): string {
+    return formatFixed(num, 1);
+}
+
+// "348.7/2269.7 mins" in the preferred units, e.g. "5.8/37.8" and "hrs"
+function formatRatio(measurement: Measurement): { ratio: string; unit: string | null } | null {
+    if (measurement.numerator === null || measurement.denominator === null) return null;
+    const numerator = convertQuantity(measurement.numerator, measurement.unit);
+    const denominator = convertQuantity(measurement.denominator, measurement.unit);
+    return { ratio: `${formatRatioPart(numerator.num)}/${formatRatioPart(denominator.num)}`, unit: numerator.unit };
+}
+
+// "3313.2/9795.0 mins" -> "3,313.2/9,795.0<br/>mins"; null without a ratio
+function formatMeasurementDetail(measurement: Measurement): Html | null {
+    const formatted = formatRatio(measurement);
+    if (!formatted) return null;
+    return formatted.unit ? html`${formatted.ratio}<br/>${formatted.unit}` : html`${formatted.ratio}`;
+}
+
+export function formatMeasurementValue(measurement: Measurement): string {
+    switch (measurement.kind) {
+        case 'percent': return `${formatFixed(measurement.value!, 1)}%`;
+        case 'count': return formatNumber(measurement.value!);
+        case 'number': {
+            const converted = convertQuantity(measurement.value!, measurement.unit);
+            return converted.unit === measurement.unit
+                ? formatNumbersInString(measurement.raw)
+                : formatNumber(converted.num, { maximumFractionDigits: 3 });
+        }
+        case 'empty': return '—';
+        case 'invalid': return measurement.raw;
+    }
+}
+
+function formatValueCell(measurement: Measurement, cssClass: string): Html {
+    if (measurement.kind === 'invalid') {
+        return html`
+            <div class="text-red-500" title="Could not parse this value">${measurement.raw}</div>
+            <div class="text-[8px] text-red-500 uppercase tracking-wider mt-0.5">unparsed</div>
+        `;
+    }
+    if (measurement.kind === 'empty') return html`<span class="opacity-40">—</span>`;
+
+    const detail = formatMeasurementDetail(measurement);
+    if (detail) {
+        return html`
+            <div class="font-bold ${cssClass}">${formatMeasurementValue(measurement)}</div>
+            <div class="text-[8px] opacity-50 mt-0.5 leading-tight">${detail}</div>
+            ${renderRateInterval(estimateRate(measurement))}
+        `;
+    }
+    return html`<span class="font-bold ${cssClass}">${formatMeasurementValue(measurement)}</span>`;
+}
+
+// Null when no branch has an overall rate to work from
+function generateStringExample(branches: Branch[], overalls: (number | null)[], contextType: 'time' | 'distance'): Html | null {
+    const unit = exposureUnit(contextType);
+    const [scale, tripDesc, digits] = unit === 'minutes' ? [60, '1-hour drive', 0]
+        : unit === 'hours' ? [10, '10-hour drive', 1]
+        : unit === 'km' ? [100, '100-km drive', 0]
+        : [100, '100-mile drive', 0];
+
+    const clauses = branches.flatMap((branch, i) => {
+        const overall = overalls[i];
+        if (overall === null) return [];
+        const engaged = formatFixed(scale * (overall / 100), digits);
+        return [`${branchLabel(branch)} keeps openpilot engaged for about ${engaged} ${unit === 'minutes' ? 'min' : unit}`];
+    });
+    if (clauses.length === 0) return null;
+
+    return html`<strong>Example:</strong> On a ${tripDesc}, ${clauses.join(', ')}.`;
+}
+
+function renderSparkline(series: Series): Html {
+    const points = series
+        .map((val, i) => ({ i, val }))
+        .filter((point): point is { i: number; val: number } => point.val !== null);
+    if (points.length < 2) return EMPTY_HTML;
+
+    const width = 48;
+    const height = 12;
+    const vals = points.map(point => point.val);
+    const min = Math.min(...vals);
+    const range = Math.max(...vals) - min || 1;
+
+    const coords = points.map(point => {
+        const x = (point.i / (series.length - 1)) * width;
+        const y = height - ((point.val - min) / range) * height;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+    });
+
+    return html`
+        <svg class="block mx-auto mt-1 opacity-50 overflow-visible" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+            <polyline fill="none" stroke="currentColor" stroke-width="1" points="${coords.join(' ')}" />
+        </svg>
+    `;
+}
+
+export function formatRelativeTime(timestamp: string): string {
+    const seconds = Math.floor((Date.now() - new Date(timestamp).getTime()) / 1000);
+    const rtf = new Intl.RelativeTimeFormat(preferredLocale(), { numeric: 'auto' });
+    
+    const units: [Intl.RelativeTimeFormatUnit, number][] = [
+        ['year', 31536000], ['month', 2592000], ['day', 86400], 
+        ['hour', 3600], ['minute', 60], ['second', 1]
+    ];
+    
+    for (const [unit, secondsInUnit] of units) {
+        if (seconds >= secondsInUnit || unit === 'second') {
+            return rtf.format(-Math.floor(seconds / secondsInUnit), unit);
+        }
+    }
+    return rtf.format(-seconds, 'second');
+}
+
+// Issues no rendered section owns: the timestamp, metadata and reports that are not objects at all
+function renderUnscopedIssues(issues: string[]): Html {
+    const sectionScopes = /^data\.[^.]+\.(segments|sections|tables)[.\s[]/;
+    return renderDataIssues('Data issues', issues.filter(issue => !sectionScopes.test(issue)));
+}
+
+function renderSourceLinks(branches: Branch[]): Html {
+    return html`${branches.map(branch => html`
+        <a href="${safeUrl(branch.report.metadata.url)}" target="_blank" rel="noopener" class="opacity-50 hover:opacity-100 transition-opacity">[ ${branch.report.metadata.branch_name || branch.key} ]</a>
+    `)}`;
+}
+
+function renderBranchHeaderCells(branches: Branch[], cellClass: string, sortable = false): Html {
+    const headerCell = (label: string, widthClass: string, column: string) => sortable
+        ? html`<th data-sort="${column}" class="text-center ${cellClass} opacity-50 ${widthClass} uppercase cursor-pointer select-none hover:opacity-100" title="Sort">${label} <span data-sort-indicator></span></th>`
+        : html`<th class="text-center ${cellClass} opacity-50 ${widthClass} uppercase">${label}</th>`;
+
+    return html`${branches.map((branch, i) => html`
+        ${i > 0 && headerCell(resolveDeltaMode() === 'rel' ? 'Δ %' : 'Δ', 'w-16', `delta:${i}`)}
+        ${headerCell(branchLabel(branch), 'w-24', `value:${i}`)}
+    `)}`;
+}
+
+// ===== ROUTING =====
+
+export type DrivingMode = typeof DRIVING_MODES[number];
+
+// /compare/<baseline>..<branch>[,<branch>]/<section path>?mode=<mode>, every part optional
+export interface Route {
+    branches: string[] | null;
+    target: string[];
+    mode: DrivingMode | null;
+}
+
+export const DRIVING_MODES = ['chill', 'experimental'] as const;
+
+export function routePath(route: Route): string {
+    const parts = route.target.map(encodeURIComponent);
+    if (route.branches) {
+        const [baseline, ...others] = route.branches.map(encodeURIComponent);
+        parts.unshift('compare', `${baseline}..${others.join(',')}`);
+    }
+    return `/${parts.join('/')}${route.mode ? `?mode=${route.mode}` : ''}`;
+}
+
+// Ids of the sections a route path can point at, e.g. /table/oscillation_analysis/amplitude-engaged
+export function sectionAnchor(...parts: string[]): string {
+    return 'section-' + parts.map(slugify).join('--');
+}
+
+// "Amplitude Engaged (m)" -> "amplitude-engaged"
+function metricSlug(metricName: string): string {
+    return slugify(metricName.replace(/\s*\([^)]*\)\s*$/, ''));
+}
+
+function drivingMode(name: string): DrivingMode | null {
+    return DRIVING_MODES.find(mode => name.toLowerCase().includes(mode)) ?? null;
+}
+
+function modeAttribute(name: string): Html {
+    const mode = drivingMode(name);
+    return mode ? html`data-mode="${mode}"` : EMPTY_HTML;
+}
+
+function renderPermalink(...target: string[]): Html {
+    return html`<a href="${routePath({ branches: null, target, mode: null })}" data-route="${target.join('/')}"
+        class="text-[10px] opacity-30 hover:opacity-100 transition-opacity" title="Link to this section">#</a>`;
+}
+
+// ===== CHANGELOG =====
+
+const MAX_CELL_MOVEMENTS = 5;
+const SEGMENT_LABELS: Record<SegmentField, string> = { total: 'Total', chill_mode: 'Chill', experimental_mode: 'Experimental' };
+
+// "section-table--<key>" etc. are only rendered for the shown branches, so a link may have nothing to scroll to
+function renderChangeLink(text: string, target: string[]): Html {
+    return html`<a href="${routePath({ branches: null, target, mode: null })}" data-route="${target.join('/')}" class="hover:underline">${text}</a>`;
+}
+
+function renderChangeValues(before: Measurement, after: Measurement, direction: MetricDirection): Html {
+    return html`
+        <span class="tabular-nums opacity-60">${formatMeasurementValue(before)} → ${formatMeasurementValue(after)}</span>
+        <span class="tabular-nums font-bold ${deltaClass(direction, before.value!, after.value!)}">${formatDelta(before.value!, after.value!, after.kind, after.unit)}</span>
+    `;
+}
+
+function renderChangeGroup(title: string, items: Html[]): Html {
+    if (items.length === 0) return EMPTY_HTML;
+    return html`
+        <div class="space-y-1">
+            <div class="text-[8px] opacity-50 uppercase tracking-widest">${title}</div>
+            <ul class="space-y-1">${items.map(item => html`<li class="flex flex-wrap items-baseline gap-2">${item}</li>`)}</ul>
+        </div>
+    `;
+}
+
+// Compares the current snapshot with the one scraped before it, for every branch rather than just the shown ones;
+// branches in localKeys were loaded in the browser, so their appearing is not news
+function renderChangelog(history: Snapshot[], localKeys: string[]): Html {
+    const [previous, current] = history.slice(-2);
+    const header = (since: string) => html`
+        <div class="flex flex-wrap items-end gap-4 pb-4 mb-6 border-b border-dashed border-phosphor-amber">
+            <h2 class="glow-text text-lg md:text-xl font-bold tracking-wider">WHAT CHANGED</h2>
+            <span class="ml-auto text-[10px] opacity-60">${since}</span>
+        </div>
+    `;
+
+    if (!current) {
+        return html`${header('')}<div class="text-[10px] opacity-60">No earlier snapshot to compare against.</div>`;
+    }
+
+    const changelog = diffSnapshots(previous, current, MAX_CELL_MOVEMENTS);
+    const label = (branchKey: string) => html`<span class="font-bold">${branchKey.toUpperCase()}</span>`;
+    const since = Number.isNaN(Date.parse(previous.timestamp)) ? 'vs the previous snapshot' : `vs the snapshot from ${formatRelativeTime(previous.timestamp)}`;
+
+    const segments = changelog.segments.map(change => html`
+        ${label(change.branchKey)}
+        ${renderChangeLink(`${SEGMENT_LABELS[change.field]} segments`, ['segments'])}
+        ${renderChangeValues(change.before, change.after, metricDirection('segments', change.field))}
+    `);
+
+    const rates = changelog.rates.map(shift => html`
+        ${label(shift.branchKey)}
+        ${renderChangeLink(`${shift.title} · ${shift.label}`, ['engagement', shift.sectionKey === 'engagement_time' ? 'time' : 'distance'])}
+        ${renderChangeValues(shift.before, shift.after, metricDirection(shift.sectionKey, shift.label))}
+    `);
+
+    const presence = changelog.presence.filter(change => !localKeys.includes(change.branchKey)).map(change => {
+        const verb = change.appeared ? 'appeared' : 'disappeared';
+        const verbClass = change.appeared ? 'text-green-500' : 'text-red-500';
+        const subject = change.tableKey === null ? 'branch'
+            : renderChangeLink(change.rowId === null ? `${change.title} table` : `${change.title} · row "${change.rowId}"`, ['table', change.tableKey]);
+        return html`${label(change.branchKey)} ${subject} <span class="${verbClass}">${verb}</span>`;
+    });
+
+    const movements = changelog.movements.map(movement => html`
+        ${label(movement.branchKey)}
+        ${renderChangeLink(`${movement.title} · ${movement.rowId} · ${formatMetricName(movement.metric)}`, ['table', movement.tableKey, metricSlug(movement.metric)])}
+        ${renderChangeValues(movement.before, movement.after, metricDirection(movement.tableKey, movement.metric))}
+    `);
+
+    const groups = [
+        renderChangeGroup('Segments', segments),
+        renderChangeGroup('Engagement rates', rates),
+        renderChangeGroup('Tables and rows', presence),
+        renderChangeGroup(`Largest cell movements (top ${MAX_CELL_MOVEMENTS})`, movements),
+    ];
+
+    return html`
+        ${header(since)}
+        <div class="grid grid-cols-1 md:grid-cols-2 gap-6 text-[10px]">
+            ${groups.some(group => group !== EMPTY_HTML) ? groups : html`<div class="opacity-60">Nothing changed.</div>`}
+        </div>
+    `;
+}
+
+// ===== PLAYOFF SCOREBOARD =====
+
+export type MatchupOutcome = 'win' | 'loss' | 'tie';
+
+// One challenger-vs-baseline comparison of a single value
+export interface Matchup {
+    group: string;
+    mode: string;
+    anchor: string;
+    branchKey: string;
+    outcome: MatchupOutcome;
+}
+
+// Null for metrics with no better direction; within the threshold or not significant counts as a tie
+function matchupOutcome(direction: MetricDirection, baselineVal: number, val: number, tieThreshold: number, significance: DiffSignificance | null): MatchupOutcome | null {
+    const baselineScore = directionScore(direction, baselineVal);
+    const score = directionScore(direction, val);
+    if (baselineScore === null || score === null) return null;
+
+    const relativeDiff = Math.abs(score - baselineScore) / (Math.abs(baselineScore) || 1) * 100;
+    if (relativeDiff < tieThreshold || (significance && !significance.significant)) return 'tie';
+    return score > baselineScore ? 'win' : 'loss';
+}
+
+// Walks the same comparisons renderEngagementRateAnalysis and renderAllComparisonTables show
+export function collectMatchups(branches: Branch[], tieThreshold: number): Matchup[] {
+    const [baseline, ...challengers] = branches;
+    const matchups: Matchup[] = [];
+
+    const addMatchup = (group: string, mode: string, anchor: string, direction: MetricDirection, branchKey: string,
+        baselineVal: number | null, val: number | null, significance: DiffSignificance | null) => {
+        if (baselineVal === null || val === null) return;
+        const outcome = matchupOutcome(direction, baselineVal, val, tieThreshold, significance);
+        if (outcome) matchups.push({ group, mode, anchor, branchKey, outcome });
+    };
+
+    ENGAGEMENT_SECTION_KEYS.forEach(sectionKey => {
+        const baselineSection = baseline.report.sections?.[sectionKey];
+        if (!baselineSection) return;
+
+        challengers.forEach(challenger => {
+            const section = challenger.report.sections?.[sectionKey];
+            if (!section) return;
+
+            ENGAGEMENT_FIELDS.forEach(({ field, label }) => {
+                const significance = diffSignificance(estimateRate(baselineSection[field]), estimateRate(section[field]));
+                addMatchup(baselineSection.title, label, rowAnchor(sectionKey, field), metricDirection(sectionKey, field),
+                    challenger.key, baselineSection[field].value, section[field].value, significance);
+            });
+        });
+    });
+
+    joinTables(branches).forEach(joined => {
+        const [baselineTable, ...tables] = joined.tables;
+        if (!baselineTable) return;
+
+        challengers.forEach((challenger, c) => {
+            const table = tables[c];
+            if (!table) return;
+
+            joined.metricKeys.forEach(metricName => {
+                joined.rowIds.forEach(rowId => {
+                    const baselineVal = findRow(baselineTable, rowId)?.cells[metricName];
+                    const val = findRow(table, rowId)?.cells[metricName];
+                    if (!baselineVal || !val) return;
+
+                    const significance = diffSignificance(estimateRate(baselineVal), estimateRate(val));
+                    addMatchup(joined.title, formatMetricName(metricName), rowAnchor(joined.key, metricName, rowId), metricDirection(joined.key, metricName),
+                        challenger.key, baselineVal.value, val.value, significance);
+                });
+            });
+        });
+    });
+
+    return matchups;
+}
+
+export function resolveTieThreshold(): number {
+    const stored = parseFloat(storedSetting(TIE_THRESHOLD_STORAGE_KEY) ?? '');
+    return Number.isFinite(stored) && stored >= 0 ? stored : DEFAULT_TIE_THRESHOLD;
+}
+
+export function renderScoreboard(branches: Branch[]): Html {
+    const tieThreshold = resolveTieThreshold();
+    const matchups = collectMatchups(branches, tieThreshold);
+    const challengers = branches.slice(1);
+
+    const renderTally = (selected: Matchup[], outcome: MatchupOutcome, cssClass: string) => {
+        const anchors = selected.filter(matchup => matchup.outcome === outcome).map(matchup => matchup.anchor);
+        const letter = outcome === 'win' ? 'W' : outcome === 'loss' ? 'L' : 'T';
+        if (anchors.length === 0) return html`<span class="opacity-30 tabular-nums">0${letter}</span>`;
+        return html`<a href="#${anchors[0]}" data-anchors="${anchors.join(' ')}" class="${cssClass} tabular-nums hover:underline">${anchors.length}${letter}</a>`;
+    };
+
+    const renderTallies = (selected: Matchup[]) => html`
+        ${renderTally(selected, 'win', 'text-green-500')}
+        <span class="opacity-30">·</span>
+        ${renderTally(selected, 'loss', 'text-red-500')}
+        <span class="opacity-30">·</span>
+        ${renderTally(selected, 'tie', 'text-neutral-500')}
+    `;
+
+    // Group by table and mode, in the order the page shows them
+    const groups: { group: string; mode: string }[] = [];
+    matchups.forEach(matchup => {
+        if (!groups.some(g => g.group === matchup.group && g.mode === matchup.mode)) {
+            groups.push({ group: matchup.group, mode: matchup.mode });
+        }
+    });
+
+    return html`
+        <div class="flex flex-wrap items-end gap-4 pb-4 mb-6 border-b border-dashed border-phosphor-amber">
+            <h2 class="glow-text text-lg md:text-xl font-bold tracking-wider">PLAYOFF SCOREBOARD</h2>
+            <label class="ml-auto text-[10px] opacity-60 flex items-center gap-2">
+                ties within ±
+                <input id="tie-threshold" type="number" min="0" step="0.5" value="${tieThreshold}"
+                    class="w-14 bg-black border border-dashed border-border-subtle px-1 tabular-nums">
+                % of baseline
+            </label>
+        </div>
+
+        <div class="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            ${challengers.map(challenger => html`
+                <div class="ascii-box-inner p-4 text-center space-y-2">
+                    <div class="text-[10px] opacity-50 uppercase tracking-widest">${branchLabel(challenger)} vs ${branchLabel(branches[0])}</div>
+                    <div class="text-2xl font-bold glow-text flex justify-center gap-2">
+                        ${renderTallies(matchups.filter(matchup => matchup.branchKey === challenger.key))}
+                    </div>
+                </div>
+            `)}
+        </div>
+
+        <table class="terminal-table text-[10px] w-full">
+            <thead>
+                <tr>
+                    <th class="text-left py-1 px-2 opacity-50 text-[8px] uppercase tracking-wider">Table</th>
+                    <th class="text-left py-1 px-2 opacity-50 text-[8px] uppercase tracking-wider">Mode</th>
+                    ${challengers.map(challenger => html`<th class="text-center py-1 px-2 opacity-50 w-32 text-[8px] uppercase">${branchLabel(challenger)}</th>`)}
+                </tr>
+            </thead>
+            <tbody>
+                ${groups.map(({ group, mode }) => html`
+                    <tr class="hover:bg-phosphor-amber/5 transition-colors">
+                        <td class="py-1 px-2 opacity-60">${group}</td>
+                        <td class="py-1 px-2 font-bold opacity-75">${mode}</td>
+                        ${challengers.map(challenger => html`
+                            <td class="text-center font-bold space-x-1">
+                                ${renderTallies(matchups.filter(matchup =>
+                                    matchup.branchKey === challenger.key && matchup.group === group && matchup.mode === mode))}
+                            </td>
+                        `)}
+                    </tr>
+                `)}
+            </tbody>
+        </table>
+
+        <p class="text-[9px] opacity-40 mt-3 leading-relaxed">
+            Each cell or rate is one matchup against the baseline, judged by the metric's better direction.
+            Metrics without a better direction are not scored; differences within the threshold or not statistically significant count as ties.
+        </p>
+    `;
+}
+
+function renderEngagementRateAnalysis(branches: Branch[], history: Snapshot[], issues: string[]): Html {
+    const adjustSpeed = resolveAdjustSpeed();
+
+    const renderEngagementBreakdown = (title: string, contextType: 'time' | 'distance', sections: (MeasuredEngagement | undefined)[]) => {
+        const sectionKey = contextType === 'time' ? 'engagement_time' : 'engagement_distance';
+        const sectionIssues = scopedIssues(issues, branches, `sections.${sectionKey}`);
+        const modeSparklines = (field: EngagementField) => branches.map(branch =>
+            historySeries(history, branch.key, report => report.sections[sectionKey]?.[field].value)
+        );
+        const modeMeasurements = (field: EngagementField) => sections.map(data => data?.[field] ?? emptyMeasurement(''));
+        const engagementRow = (label: string, field: EngagementField) => renderComparisonRow(
+            branches,
+            label,
+            modeMeasurements(field),
+            metricDirection(sectionKey, field),
+            { sparklines: modeSparklines(field), anchor: rowAnchor(sectionKey, field) },
+        );
+
+        const overallMeasurements = modeMeasurements('overall');
+        const overalls = overallMeasurements.map(measurement => measurement.value);
+
+        const overallDirection = metricDirection(sectionKey, 'overall');
+        const overallClasses = highlightClasses(overalls, overallDirection);
+        const overallEstimates = overallMeasurements.map(measurement => estimateRate(measurement));
+        const exampleText = generateStringExample(branches, overalls, contextType);
+        const adjustments = [
+            standardizeRates('mode', modeStrata(branches, sectionKey)),
+            standardizeRates('speed', speedBucketStrata(branches, contextType)),
+        ].filter((adjustment): adjustment is MixAdjustment => adjustment !== null);
+        const shownStrategy = shownMixStrategy(adjustments.map(adjustment => adjustment.strategy), adjustSpeed);
+        const metricType = contextType === 'time' ? 'TIME' : 'DISTANCE';
+        const gridCols = branches.length <= 2 ? 'grid-cols-2' : branches.length === 3 ? 'grid-cols-3' : 'grid-cols-2 md:grid-cols-4';
+        
+        return html`
+            <div id="${sectionAnchor('engagement', contextType)}" class="ascii-box-inner p-4 space-y-4" data-adjustments="${adjustments.map(adjustment => adjustment.strategy).join(' ')}">
+                ${renderDataIssues('Invalid data', sectionIssues)}
+                <div class="mb-6 bg-black/40 p-3">
+                    <div class="flex items-center gap-2">
+                        <span class="text-[10px] opacity-50 tracking-widest uppercase">Overall Engagement Rate</span>
+                        <span class="text-[10px] opacity-50">·</span>
+                        <span class="text-sm font-bold glow-text tracking-wider">BY ${metricType}</span>
+                        ${renderPermalink('engagement', contextType)}
+                        ${renderExportControl(`sections.${sectionKey}`)}
+                    </div>
+                </div>
+                
+                <!-- Overall Comparison -->
+                <div id="${rowAnchor(sectionKey, 'overall')}" class="pb-3 border-b border-dashed border-phosphor-dim">
+                    <!-- Diff Badges at Top (one per branch compared against the baseline) -->
+                    <div class="flex flex-wrap justify-center gap-2 mb-3">
+                        ${branches.slice(1).map((branch, i) => {
+                            const [baselineOverall, overall] = [overalls[0], overalls[i + 1]];
+                            if (baselineOverall === null || overall === null) return null;
+                            const significance = diffSignificance(overallEstimates[0], overallEstimates[i + 1]);
+                            return html`
+                                <div class="inline-flex items-center gap-2 px-3 py-1 border border-dashed border-neutral-500 bg-black/40">
+                                    ${branches.length > 2 ? html`<span class="text-[10px] opacity-50 tracking-widest">${branchLabel(branch)}</span>` : ''}
+                                    <span class="text-base ${significanceClass(significance)} ${deltaClass(overallDirection, baselineOverall, overall, significance)} tabular-nums"
+                                        title="${deltaTitle(overallDirection, baselineOverall, overall, branches[0])}">
+                                        ${formatDelta(baselineOverall, overall, 'percent')}
+                                    </span>
+                                    <span class="text-neutral-500">${renderSignificanceNote(significance)}</span>
+                                </div>
+                            `;
+                        })}
+                    </div>
+                    
+                    <!-- Values Grid (baseline first) -->
+                    <div class="grid ${gridCols}">
+                        ${branches.map((branch, i) => {
+                            const overall = overalls[i];
+                            return html`
+                                <div class="space-y-1 text-center pb-2 px-3 ${i < branches.length - 1 ? 'border-r border-dashed border-phosphor-dim' : ''}">
+                                    <div class="text-lg md:text-xl ${i === 0 ? 'opacity-70' : 'opacity-90'} font-bold mb-3 tracking-widest glow-text">${branchLabel(branch)}</div>
+                                    ${overall === null
+                                        ? html`<div class="text-4xl font-bold opacity-40">—</div>`
+                                        : html`<div class="text-4xl font-bold tabular-nums ${overallClasses[i] === 'opacity-60' ? 'opacity-60' : 'glow-text'}">${formatFixed(overall, 1)}<span class="text-xl opacity-50">%</span></div>`}
+                                    <div class="text-xs opacity-60 mt-2 font-medium leading-tight">${formatMeasurementDetail(overallMeasurements[i])}</div>
+                                    ${renderRateInterval(overallEstimates[i])}
+                                    ${adjustments.map(adjustment => renderAdjustedRate(adjustment, i, overallDirection, adjustment.strategy !== shownStrategy))}
+                                </div>
+                            `;
+                        })}
+                    </div>
+                </div>
+
+                <!-- Context Explanation -->
+                <div class="text-[9px] opacity-50 italic leading-relaxed bg-black/20 p-2 border-l-2 border-phosphor-dim space-y-1">
+                    ${exampleText && html`<div>${exampleText}</div>`}
+                    ${adjustments.map(adjustment => renderAdjustmentNote(adjustment, contextType, adjustment.strategy !== shownStrategy))}
+                </div>
+
+                <!-- Mode Breakdown Table -->
+                <div class="text-[10px]" data-chart-view>
+                    <div class="flex items-center gap-2 mb-4 mt-6">
+                        <span class="text-[10px] opacity-50 uppercase tracking-widest">Engagement rate by driving mode</span>
+                        <span class="ml-auto">${renderChartToggle()}</span>
+                    </div>
+                    ${renderBranchTable(branches, 'Mode', [
+                        engagementRow('Chill', 'chill_mode'),
+                        engagementRow('Experimental', 'experimental_mode'),
+                    ], { compact: true })}
+                    ${renderChartPanel(branches, ENGAGEMENT_FIELDS.map(({ field, label }) => ({ label, measurements: modeMeasurements(field) })))}
+                </div>
+            </div>
+        `;
+    };
+
+    return html`
+        ${renderSectionHeader('ENGAGEMENT RATE ANALYSIS', html`
+            <label class="ml-auto text-[10px] opacity-60 flex items-center gap-2" title="Adjusted rates also hold the speed-bucket mix fixed, where a speed bucket table exists">
+                <input id="adjust-speed" type="checkbox" ${adjustSpeed ? 'checked' : ''} class="accent-phosphor-amber">
+                adjust for speed buckets too
+            </label>
+        `)}
+        
+        <!-- Selection Bias Note -->
+        <div class="mb-10 bg-amber-500/10 border-l-4 border-amber-500/50 p-3">
+            <p class="text-[10px] leading-relaxed text-amber-500/80">
+                <span class="font-bold uppercase tracking-wider">Note:</span>
+                 Engagement rate comparison results should be interpreted with caution due to selection bias. Users exploring WMI tend to be more engaged than those running nightly builds.
+            </p>
+            <p class="text-[10px] leading-relaxed text-amber-500/80 mt-2">
+                <span class="font-bold uppercase tracking-wider">Intervals:</span>
+                 Bracketed ranges are 95% confidence intervals (Wilson for rates, Newcombe for Δ in percentage points), treating each minute or mile as an independent sample, so they are optimistic. Δ values marked N.S. have an interval that includes zero.
+            </p>
+        </div>
+        
+        <div class="space-y-8">
+            <!-- Primary Engagement Metrics -->
+            <div class="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                ${renderHTMLSafely('Engagement rate (time)', () => renderEngagementBreakdown(
+                    'Engagement Rate (Time)',
+                    'time',
+                    branches.map(branch => branch.report.sections.engagement_time)
+                ))}
+                ${renderHTMLSafely('Engagement rate (distance)', () => renderEngagementBreakdown(
+                    'Engagement Rate (Distance)',
+                    'distance',
+                    branches.map(branch => branch.report.sections.engagement_distance)
+                ))}
+            </div>
+
+        </div>
+    `;
+}
+
+// Dash patterns tell branches apart without leaving the single phosphor color
+const TREND_DASHES = ['', '6 3', '2 2', '8 2 2 2'];
+
+function renderTrendChart(label: string, history: Snapshot[], branches: Branch[], pick: (report: MeasuredReport) => number | null | undefined): Html {
+    const width = 300;
+    const height = 120;
+    const pad = 24;
+
+    const times = history.map(snapshot => Date.parse(snapshot.timestamp));
+    const seriesByBranch = branches.map(branch => historySeries(history, branch.key, pick));
+    const allVals = seriesByBranch.flat().filter((val): val is number => val !== null);
+    if (allVals.length === 0) return EMPTY_HTML;
+
+    const minVal = Math.min(...allVals);
+    const maxVal = Math.max(...allVals);
+    const valRange = maxVal - minVal || 1;
+    const timeRange = times[times.length - 1] - times[0] || 1;
+
+    const x = (t: number) => pad + ((t - times[0]) / timeRange) * (width - 2 * pad);
+    const y = (val: number) => height - pad - ((val - minVal) / valRange) * (height - 2 * pad);
+    const formatDate = (t: number) => new Date(t).toLocaleDateString(preferredLocale(), { month: 'short', day: 'numeric' });
+
+    const lines = seriesByBranch.map((series, b) => {
+        const points = series
+            .map((val, i) => val === null ? null : { x: x(times[i]), y: y(val), val, t: times[i] })
+            .filter(point => point !== null);
+        const dash = TREND_DASHES[b % TREND_DASHES.length];
+
+        return html`
+            <polyline fill="none" stroke="currentColor" stroke-width="1.5" stroke-dasharray="${dash}" opacity="${b === 0 ? 0.6 : 0.9}"
+                points="${points.map(point => `${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ')}" />
+            ${points.map(point => html`
+                <circle cx="${point.x.toFixed(1)}" cy="${point.y.toFixed(1)}" r="2" fill="currentColor">
+                    <title>${branchLabel(branches[b])}: ${formatFixed(point.val, 1)}% (${formatDate(point.t)})</title>
+                </circle>
+            `)}
+        `;
+    });
+
+    return html`
+        <div class="space-y-1">
+            <div class="text-[10px] opacity-50 uppercase tracking-widest">${label}</div>
+            <svg class="w-full text-phosphor-amber" viewBox="0 0 ${width} ${height}" role="img" aria-label="${label} trend">
+                <line x1="${pad}" y1="${height - pad}" x2="${width - pad}" y2="${height - pad}" stroke="currentColor" stroke-dasharray="2 2" opacity="0.3" />
+                <text x="${pad - 4}" y="${y(maxVal) + 3}" text-anchor="end" font-size="7" fill="currentColor" opacity="0.5">${maxVal.toFixed(1)}</text>
+                <text x="${pad - 4}" y="${y(minVal) + 3}" text-anchor="end" font-size="7" fill="currentColor" opacity="0.5">${minVal.toFixed(1)}</text>
+                <text x="${pad}" y="${height - pad + 12}" font-size="7" fill="currentColor" opacity="0.5">${formatDate(times[0])}</text>
+                <text x="${width - pad}" y="${height - pad + 12}" text-anchor="end" font-size="7" fill="currentColor" opacity="0.5">${formatDate(times[times.length - 1])}</text>
+                ${lines}
+            </svg>
+        </div>
+    `;
+}
+
+function renderTrendAnalysis(branches: Branch[], history: Snapshot[]): Html {
+    const legend = branches.map((branch, i) => html`
+        <span class="inline-flex items-center gap-1">
+            <svg width="24" height="6"><line x1="0" y1="3" x2="24" y2="3" stroke="currentColor" stroke-width="1.5" stroke-dasharray="${TREND_DASHES[i % TREND_DASHES.length]}" /></svg>
+            ${branchLabel(branch)}
+        </span>
+    `);
+
+    const renderTrendColumn = (contextType: 'time' | 'distance') => {
+        const sectionKey = contextType === 'time' ? 'engagement_time' : 'engagement_distance';
+        const metricType = contextType === 'time' ? 'TIME' : 'DISTANCE';
+
+        return html`
+            <div class="ascii-box-inner p-4 space-y-4">
+                <div class="text-sm font-bold glow-text tracking-wider">BY ${metricType}</div>
+                ${renderTrendChart('Overall', history, branches, report => report.sections[sectionKey]?.overall.value)}
+                ${renderTrendChart('Chill', history, branches, report => report.sections[sectionKey]?.chill_mode.value)}
+                ${renderTrendChart('Experimental', history, branches, report => report.sections[sectionKey]?.experimental_mode.value)}
+            </div>
+        `;
+    };
+
+    return html`
+        <div class="pb-4 mb-6 border-b border-dashed border-phosphor-amber">
+            <h2 class="glow-text text-lg md:text-xl font-bold tracking-wider">ENGAGEMENT TRENDS</h2>
+        </div>
+        ${history.length < 2
+            ? html`<p class="text-[10px] opacity-50">Trends appear once more than one data snapshot has been recorded.</p>`
+            : html`
+                <div class="flex flex-wrap gap-4 text-[10px] opacity-70 mb-4">${legend}</div>
+                <div class="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    ${renderTrendColumn('time')}
+                    ${renderTrendColumn('distance')}
+                </div>
+            `}
+    `;
+}
+
+// ===== COMPARISON COMPONENTS =====
+
+// Options shared by every branch comparison row; measurements, sparklines and missing kinds are per branch, baseline first
+interface ComparisonRowOptions {
+    sparklines?: Series[];
+    missing?: (MissingKind | null)[];
+    // Overrides the measurement kind of every Δ, e.g. pp for a column that mixes rates and counts
+    kind?: MeasurementKind;
+    anchor?: string;
+    attributes?: Html;
+    rowClass?: string;
+}
+
+// Title bar of the engagement, segment and table sections; controls follow the title
+function renderSectionHeader(title: string, controls: Interpolation): Html {
+    return html`
+        <div class="flex flex-wrap items-center gap-3 pb-4 mb-10 border-b border-dashed border-phosphor-amber">
+            <h2 class="glow-text text-lg md:text-xl font-bold tracking-wider">${title}</h2>
+            ${controls}
+        </div>
+    `;
+}
+
+// "Highway (60+ mph)" gets its parenthesised part on a smaller second line
+function renderRowId(rowId: string): Html {
+    const match = rowId.match(/\s*(\([^)]+\))/);
+    if (!match) return html`${rowId.toUpperCase()}`;
+
+    const before = rowId.slice(0, match.index);
+    const after = rowId.slice(match.index! + match[0].length);
+    return html`${before.toUpperCase()}<br/><span class="opacity-60 text-[9px]">${match[1].toUpperCase()}</span>${after.toUpperCase()}`;
+}
+
+function renderValueCell(measurement: Measurement, cssClass: string, sparkline?: Series): Html {
+    return html`<td class="text-center tabular-nums">${formatValueCell(measurement, cssClass)}${sparkline && renderSparkline(sparkline)}</td>`;
+}
+
+function renderDeltaCell(direction: MetricDirection, baseline: Measurement, measurement: Measurement, baselineBranch: Branch, kind = measurement.kind): Html {
+    const baselineVal = baseline.value;
+    const val = measurement.value;
+    if (baselineVal === null || val === null || val === baselineVal) {
+        return html`<td class="text-center text-neutral-500 text-[10px]">—</td>`;
+    }
+
+    const significance = diffSignificance(estimateRate(baseline), estimateRate(measurement));
+    return html`
+        <td class="text-center text-[10px]">
+            <span class="${deltaClass(direction, baselineVal, val, significance)} ${significanceClass(significance)} tabular-nums"
+                title="${deltaTitle(direction, baselineVal, val, baselineBranch)}">${formatDelta(baselineVal, val, kind, measurement.unit)}</span>
+            <span class="text-neutral-500">${renderSignificanceNote(significance)}</span>
+        </td>
+    `;
+}
+
+function renderMissingCells(kind: MissingKind, withDelta: boolean): Html {
+    return html`
+        ${withDelta ? html`<td class="text-center text-[10px]"><span class="opacity-50"></span></td>` : ''}
+        <td class="text-center text-red-500 text-[8px] bg-red-900/30">${MISSING_LABELS[kind]}</td>
+    `;
+}
+
+// The baseline's value, then a Δ and value cell for every other branch
+function renderComparisonCells(branches: Branch[], measurements: Measurement[], direction: MetricDirection, options: ComparisonRowOptions): Html {
+    const classes = highlightClasses(measurements.map(measurement => measurement.value), direction);
+
+    return html`${measurements.map((measurement, i) => {
+        const missing = options.missing?.[i];
+        if (missing) return renderMissingCells(missing, i > 0);
+
+        const valueCell = renderValueCell(measurement, classes[i], options.sparklines?.[i]);
+        if (i === 0) return valueCell;
+        return html`${renderDeltaCell(direction, measurements[0], measurement, branches[0], options.kind)}${valueCell}`;
+    })}`;
+}
+
+function renderComparisonRow(branches: Branch[], label: string, measurements: Measurement[], direction: MetricDirection, options: ComparisonRowOptions = {}): Html {
+    return html`
+        <tr ${options.anchor && html`id="${options.anchor}"`} ${modeAttribute(label)} ${options.attributes}
+            class="hover:bg-phosphor-amber/5 transition-colors ${options.rowClass ?? ''}">
+            <td class="py-2 px-2 font-bold opacity-75 text-[10px] leading-tight">${renderRowId(label)}</td>
+            ${renderComparisonCells(branches, measurements, direction, options)}
+        </tr>
+    `;
+}
+
+// Compact tables sit inside the engagement boxes; sortable ones need rows carrying data-values and data-order
+function renderBranchTable(branches: Branch[], idLabel: string, rows: Html[], options: { compact?: boolean; sortable?: boolean; footer?: Html } = {}): Html {
+    const headerClass = options.compact ? 'py-1 px-2 text-[8px]' : 'py-2 px-2 text-[9px]';
+    return html`
+        <table class="terminal-table ${options.compact ? 'text-[10px]' : 'text-[11px]'} w-full">
+            <thead>
+                <tr>
+                    <th class="text-left ${headerClass} opacity-50 uppercase tracking-wider">${idLabel}</th>
+                    ${renderBranchHeaderCells(branches, headerClass, options.sortable)}
+                </tr>
+            </thead>
+            <tbody>${rows}</tbody>
+            ${options.footer && html`<tfoot>${options.footer}</tfoot>`}
+        </table>
+    `;
+}
+
+export function renderDataIssues(title: string, issues: string[]): Html {
+    if (issues.length === 0) return EMPTY_HTML;
+    return html`
+        <div class="mb-8 bg-red-500/10 border-l-4 border-red-500/50 p-3 text-[10px] leading-relaxed text-red-400/90">
+            <span class="font-bold uppercase tracking-wider">${title}:</span>
+            <ul class="list-disc list-inside mt-1">
+                ${issues.map(issue => html`<li>${issue}</li>`)}
+            </ul>
+        </div>
+    `;
+}
+
+// ===== COMPARISON TABLES =====
+
+const SEGMENT_CHART_ROWS: [string, SegmentField][] = [['Chill', 'chill_mode'], ['Experimental', 'experimental_mode'], ['Total', 'total']];
+
+function renderSegmentAnalysis(branches: Branch[], history: Snapshot[], issues: string[]): Html {
+    const segmentRow = (label: string, field: SegmentField, rowClass?: string) => renderComparisonRow(
+        branches,
+        label,
+        branches.map(branch => branch.report.segments[field]),
+        metricDirection('segments', field),
+        { sparklines: branches.map(branch => historySeries(history, branch.key, report => report.segments[field].value)), rowClass },
+    );
+
+    const chartGroups = SEGMENT_CHART_ROWS.map(([label, field]) => ({ label, measurements: branches.map(branch => branch.report.segments[field]) }));
+
+    return html`
+        <div id="${sectionAnchor('segments')}" class="ascii-box bg-black/40 p-4 md:p-6 space-y-6" data-chart-view>
+            ${renderSectionHeader('SEGMENT ANALYSIS', [renderPermalink('segments'), renderExportControl('segments'), renderChartToggle()])}
+            ${renderDataIssues('Invalid data', scopedIssues(issues, branches, 'segments'))}
+            ${renderBranchTable(branches, 'Mode', [
+                segmentRow('Chill', 'chill_mode'),
+                segmentRow('Experimental', 'experimental_mode'),
+            ], { footer: segmentRow('Total Segments', 'total', 'border-t-2 border-phosphor-amber/40') })}
+            ${renderChartPanel(branches, chartGroups)}
+        </div>
+    `;
+}
+
+// Segment Analysis has known field names
+// Other tables have unknown structure (discovered at runtime and joined across every branch)
+function renderAllComparisonTables(branches: Branch[], history: Snapshot[], issues: string[]): Html {
+    return html`
+        ${renderHTMLSafely('Segment analysis', () => renderSegmentAnalysis(branches, history, issues))}
+        ${joinTables(branches).map(joined => renderHTMLSafely(joined.title, () =>
+            renderComparisonTable(branches, history, joined, scopedIssues(issues, branches, `tables.${joined.key}`))))}
+    `;
+}
+
+// Tables are bound by data-comparison-table: a row filter for the whole table and sorting per metric
+function renderComparisonTable(branches: Branch[], history: Snapshot[], joined: JoinedTable, tableIssues: string[]): Html {
+    const { key, idKey, metricKeys, tables } = joined;
+    if (!idKey) return renderDataIssues(`${joined.title}: invalid data`, tableIssues);
+
+    const missingFrom = branches.filter((_, i) => !tables[i]);
+
+    // Each metric is rendered as a separate table
+    const renderMetricTable = (metricName: string) => {
+        const direction = metricDirection(key, metricName);
+        const chartGroups: ChartGroup[] = [];
+
+        const rows = joined.rowIds.map((rowId, order) => {
+            const missing = tables.map(table => missingKind(table, rowId, metricName));
+            const vals = tables.map((table, i) => table && !missing[i]
+                ? findRow(table, rowId)?.cells[metricName] ?? emptyMeasurement('')
+                : emptyMeasurement(''));
+            chartGroups.push({ label: rowId, measurements: vals });
+
+            return renderComparisonRow(branches, rowId, vals, direction, {
+                sparklines: branches.map(branch => tableCellSeries(history, branch.key, key, rowId, metricName)),
+                missing,
+                kind: vals.some(val => val.kind === 'percent') ? 'percent' : undefined,
+                anchor: rowAnchor(key, metricName, rowId),
+                attributes: html`data-row-id="${rowId}" data-order="${order}" data-values="${vals.map(val => val.value ?? '').join(' ')}"`,
+                rowClass: missing.some(kind => kind !== null) ? 'bg-red-500/10' : '',
+            });
+        });
+
+        return html`
+            <div id="${sectionAnchor('table', key, metricSlug(metricName))}" ${modeAttribute(metricName)} class="space-y-3" data-chart-view>
+                <div class="flex items-center gap-2 pb-2 border-b border-dashed border-phosphor-dim">
+                    <span class="text-[10px] opacity-50 uppercase tracking-wider">Mode:</span>
+                    <span class="text-sm font-bold glow-text">${formatMetricName(metricName).toUpperCase()}</span>
+                    ${renderPermalink('table', key, metricSlug(metricName))}
+                    <span class="text-[9px] opacity-40 uppercase tracking-wider ml-auto">${DIRECTION_LABELS[direction]}</span>
+                    ${renderChartToggle()}
+                </div>
+                ${renderBranchTable(branches, idKey, rows, { sortable: true })}
+                ${renderChartPanel(branches, chartGroups)}
+            </div>
+        `;
+    };
+
+    return html`
+        <div id="${sectionAnchor('table', key)}" data-comparison-table class="ascii-box bg-black/40 p-4 md:p-6 space-y-6">
+            ${renderSectionHeader(joined.title.toUpperCase(), html`
+                ${renderPermalink('table', key)}
+                <input type="search" data-row-filter placeholder="filter ${idKey.toLowerCase()}..."
+                    class="bg-black border border-dashed border-border-subtle px-2 py-0.5 text-[10px] w-36">
+                ${missingFrom.map(branch => html`
+                    <span class="text-[9px] text-red-500 bg-red-900/30 px-2 py-0.5 uppercase tracking-wider">Missing in ${branchLabel(branch)}</span>
+                `)}
+                ${renderExportControl(`tables.${key}`)}
+            `)}
+            ${renderDataIssues('Invalid data', tableIssues)}
+            ${renderDataIssues('Header mismatch', joined.headerIssues)}
+            ${renderDataIssues('Unparsed values', joined.parseIssues)}
+            <div class="grid grid-cols-1 xl:grid-cols-2 gap-10">${metricKeys.map(renderMetricTable)}</div>
+        </div>
+    `;
+}
+
+// ===== COMPARISON CHARTS =====
+
+// One category on the chart (a speed bucket, turn type or mode) with a measurement per branch
+interface ChartGroup {
+    label: string;
+    measurements: Measurement[];
+}
+
+// Branches share the phosphor color, so bars and dots differ by opacity; the baseline is dimmest like in the tables
+const CHART_OPACITIES = [0.35, 0.95, 0.7, 0.5];
+
+function chartOpacity(i: number): number {
+    return CHART_OPACITIES[i % CHART_OPACITIES.length];
+}
+
+function chartTooltip(branch: Branch, group: ChartGroup, measurement: Measurement): Html {
+    return html`<title>${branchLabel(branch)} · ${group.label}: ${formatExportCell(measurement)}</title>`;
+}
+
+// Drops the "(0-1 mph)" style suffix so axis labels fit; the tooltip keeps the full row id
+function chartLabel(label: string): string {
+    return label.replace(/\s*\([^)]*\)/, '');
+}
+
+function chartValues(groups: ChartGroup[]): number[] {
+    return groups.flatMap(group => group.measurements.map(measurement => measurement.value)).filter((val): val is number => val !== null);
+}
+
+// Rates read best as bars from zero; small signed measurements like lane offsets as dots on a shared axis
+function isRateChart(groups: ChartGroup[]): boolean {
+    return groups.every(group => group.measurements.every(measurement => measurement.kind === 'percent' || measurement.value === null));
+}
+
+function renderBarChart(branches: Branch[], groups: ChartGroup[]): Html {
+    const vals = chartValues(groups);
+    if (vals.length === 0) return EMPTY_HTML;
+
+    const width = 300;
+    const height = 140;
+    const pad = 24;
+    const maxVal = Math.max(...vals, 0);
+    const minVal = Math.min(...vals, 0);
+    const valRange = maxVal - minVal || 1;
+    const y = (val: number) => height - pad - ((val - minVal) / valRange) * (height - 2 * pad);
+
+    const groupWidth = (width - 2 * pad) / groups.length;
+    const barWidth = (groupWidth * 0.8) / branches.length;
+
+    const bars = groups.map((group, g) => {
+        const groupX = pad + g * groupWidth;
+        return html`
+            <g ${modeAttribute(group.label)}>
+                ${group.measurements.map((measurement, b) => {
+                    if (measurement.value === null) return '';
+                    const top = Math.min(y(measurement.value), y(0));
+                    return html`
+                        <rect x="${(groupX + groupWidth * 0.1 + b * barWidth).toFixed(1)}" y="${top.toFixed(1)}" width="${(barWidth - 1).toFixed(1)}"
+                            height="${Math.max(Math.abs(y(measurement.value) - y(0)), 0.5).toFixed(1)}" fill="currentColor" opacity="${chartOpacity(b)}">
+                            ${chartTooltip(branches[b], group, measurement)}
+                        </rect>
+                    `;
+                })}
+                <text x="${(groupX + groupWidth / 2).toFixed(1)}" y="${height - pad + 10}" text-anchor="middle" font-size="6" fill="currentColor" opacity="0.6">${chartLabel(group.label)}</text>
+            </g>
+        `;
+    });
+
+    return html`
+        <svg class="w-full text-phosphor-amber" viewBox="0 0 ${width} ${height}" role="img">
+            <line x1="${pad}" y1="${y(0)}" x2="${width - pad}" y2="${y(0)}" stroke="currentColor" stroke-dasharray="2 2" opacity="0.3" />
+            <text x="${pad - 4}" y="${y(maxVal) + 3}" text-anchor="end" font-size="7" fill="currentColor" opacity="0.5">${maxVal.toFixed(1)}</text>
+            <text x="${pad - 4}" y="${y(0) + 3}" text-anchor="end" font-size="7" fill="currentColor" opacity="0.5">0</text>
+            ${bars}
+        </svg>
+    `;
+}
+
+// Dumbbell rows: a faint line spans the branches' values, the baseline is a hollow dot
+function renderDotPlot(branches: Branch[], groups: ChartGroup[]): Html {
+    const vals = chartValues(groups);
+    if (vals.length === 0) return EMPTY_HTML;
+
+    const width = 300;
+    const rowHeight = 16;
+    const pad = 16;
+    const labelWidth = 72;
+    const height = pad * 2 + groups.length * rowHeight;
+    const spread = Math.max(...vals) - Math.min(...vals) || Math.abs(vals[0]) || 1;
+    const minVal = Math.min(...vals) - spread * 0.1;
+    const maxVal = Math.max(...vals) + spread * 0.1;
+    const x = (val: number) => labelWidth + ((val - minVal) / (maxVal - minVal)) * (width - labelWidth - pad);
+    const unit = groups.flatMap(group => group.measurements).find(measurement => measurement.value !== null)?.unit ?? null;
+    const axisLabel = (val: number) => formatNumber(convertQuantity(val, unit).num, { maximumFractionDigits: 4 });
+
+    const rows = groups.map((group, g) => {
+        const rowY = pad + (g + 0.5) * rowHeight;
+        const present = group.measurements.map(measurement => measurement.value).filter((val): val is number => val !== null);
+        return html`
+            <g ${modeAttribute(group.label)}>
+                <text x="${labelWidth - 6}" y="${rowY + 2}" text-anchor="end" font-size="6" fill="currentColor" opacity="0.6">${chartLabel(group.label)}</text>
+                ${present.length > 1 ? html`<line x1="${x(Math.min(...present)).toFixed(1)}" y1="${rowY}" x2="${x(Math.max(...present)).toFixed(1)}" y2="${rowY}" stroke="currentColor" opacity="0.3" />` : ''}
+                ${group.measurements.map((measurement, b) => measurement.value === null ? '' : html`
+                    <circle cx="${x(measurement.value).toFixed(1)}" cy="${rowY}" r="3" stroke="currentColor"
+                        fill="${b === 0 ? 'none' : 'currentColor'}" opacity="${b === 0 ? 0.8 : chartOpacity(b)}">
+                        ${chartTooltip(branches[b], group, measurement)}
+                    </circle>
+                `)}
+            </g>
+        `;
+    });
+
+    return html`
+        <svg class="w-full text-phosphor-amber" viewBox="0 0 ${width} ${height}" role="img">
+            ${minVal < 0 && maxVal > 0 ? html`<line x1="${x(0).toFixed(1)}" y1="${pad / 2}" x2="${x(0).toFixed(1)}" y2="${height - pad / 2}" stroke="currentColor" stroke-dasharray="2 2" opacity="0.3" />` : ''}
+            <text x="${labelWidth}" y="${height - 4}" font-size="7" fill="currentColor" opacity="0.5">${axisLabel(minVal)}</text>
+            <text x="${width - pad}" y="${height - 4}" text-anchor="end" font-size="7" fill="currentColor" opacity="0.5">${axisLabel(maxVal)}</text>
+            ${rows}
+        </svg>
+    `;
+}
+
+function renderChartLegend(branches: Branch[], isRate: boolean): Html {
+    const marker = (i: number) => isRate
+        ? html`<rect width="8" height="8" fill="currentColor" opacity="${chartOpacity(i)}" />`
+        : html`<circle cx="4" cy="4" r="3" stroke="currentColor" fill="${i === 0 ? 'none' : 'currentColor'}" opacity="${i === 0 ? 0.8 : chartOpacity(i)}" />`;
+    return html`
+        <div class="flex flex-wrap gap-3 text-[9px] opacity-70 mt-2">
+            ${branches.map((branch, i) => html`
+                <span class="inline-flex items-center gap-1">
+                    <svg width="8" height="8">${marker(i)}</svg>
+                    ${branchLabel(branch)}
+                </span>
+            `)}
+        </div>
+    `;
+}
+
+// The chart sits hidden next to its table inside a [data-chart-view] container
+function renderChartPanel(branches: Branch[], groups: ChartGroup[]): Html {
+    const isRate = isRateChart(groups);
+    const chart = isRate ? renderBarChart(branches, groups) : renderDotPlot(branches, groups);
+    if (chart === EMPTY_HTML) return EMPTY_HTML;
+    return html`<div data-chart class="hidden">${chart}${renderChartLegend(branches, isRate)}</div>`;
+}
+
+function renderChartToggle(): Html {
+    return html`<button type="button" data-chart-toggle class="text-[9px] uppercase tracking-wider opacity-50 hover:opacity-100 transition-opacity">[ CHART ]</button>`;
+}
+
+// ===== EXPORT =====
+
+type ExportFormat = 'csv' | 'markdown' | 'json';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mime: string }[] = [
+    { format: 'csv', label: 'CSV', extension: 'csv', mime: 'text/csv' },
+    { format: 'markdown', label: 'MD', extension: 'md', mime: 'text/markdown' },
+    { format: 'json', label: 'JSON', extension: 'json', mime: 'application/json' },
+];
+
+// Same text as the Δ columns, following the page's absolute/relative setting
+export function formatExportDelta(baselineCell: ExportCell, cell: ExportCell): string {
+    if (typeof baselineCell === 'string' || typeof cell === 'string') return '—';
+    if (baselineCell.value === null || cell.value === null) return '—';
+    return formatDelta(baselineCell.value, cell.value, cell.kind, cell.unit);
+}
+
+// Value plus its plain-text ratio, e.g. "15.4% (348.7/2,269.7 mins)"
+export function formatExportCell(cell: ExportCell): string {
+    if (typeof cell === 'string') return MISSING_LABELS[cell];
+    const value = formatMeasurementValue(cell);
+    const formatted = formatRatio(cell);
+    if (!formatted) return value;
+    return `${value} (${formatted.unit ? `${formatted.ratio} ${formatted.unit}` : formatted.ratio})`;
+}
+
+// Columns in page order: id, metric, baseline, then Δ and value for every other branch
+export function exportTextRows(branches: Branch[], section: ExportSection): string[][] {
+    const header = [section.idKey, 'Metric', ...branches.flatMap((branch, i) => i === 0 ? [branchLabel(branch)] : [`Δ ${branchLabel(branch)}`, branchLabel(branch)])];
+    const rows = section.rows.map(row => [
+        row.id,
+        formatMetricName(row.metric),
+        ...row.cells.flatMap((cell, i) => i === 0
+            ? [formatExportCell(cell)]
+            : [formatExportDelta(row.cells[0], cell), formatExportCell(cell)]),
+    ]);
+    return [header, ...rows];
+}
+
+function renderExportControl(scope: string): Html {
+    return html`
+        <span data-export="${scope}" class="ml-auto flex items-center gap-2 text-[9px] uppercase tracking-wider"
+            title="Copy to clipboard (shift-click to download)">
+            <span class="opacity-40">export:</span>
+            ${EXPORT_FORMATS.map(({ format, label }) => html`
+                <button type="button" data-format="${format}" class="opacity-50 hover:opacity-100 transition-opacity">[ ${label} ]</button>
+            `)}
+        </span>
+    `;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'bun:test';
+import {
+    type Branch, type ReportData, diffSignificance, estimateRate, findRegressions, measureSnapshot, parseMeasurement,
+    parseRegressionGate,
+} from './report';
+
+function report(engagement: number, laneCenter: string): ReportData {
+    return {
+        metadata: { page_title: null, url: 'https://example.com/', branch_name: null },
+        segments: { total: 100, chill_mode: 60, experimental_mode: 40 },
+        sections: {
+            engagement_time: {
+                title: 'Engagement Rate (Time)',
+                overall: engagement,
+                overall_detail: `${engagement * 10}/1000.0 mins`,
+                chill_mode: engagement,
+                experimental_mode: engagement,
+            },
+        },
+        tables: {
+            lane_centering_analysis: {
+                title: 'Lane Centering',
+                headers: ['Type', 'Abs Lane Center Engaged (m)'],
+                rows: [{ 'Type': 'Straight', 'Abs Lane Center Engaged (m)': laneCenter }],
+            },
+        },
+    };
+}
+
+// Baseline master at 60% engagement, challenger wmi at 40% with a worse lane center
+function branches(): Branch[] {
+    const snapshot = measureSnapshot({ timestamp: '2026-01-20T00:00:00Z', data: { master: report(60, '0.100'), wmi: report(40, '0.150') } });
+    return Object.entries(snapshot.reports).map(([key, measured]) => ({ key, report: measured }));
+}
+
+function gated(...specs: string[]) {
+    return findRegressions(branches(), specs.map(parseRegressionGate), 2, false);
+}
+
+describe('parseMeasurement', () => {
+    test('reads a rate with its ratio', () => {
+        expect(parseMeasurement('15.4% (348.7/2269.7 mins)')).toEqual({
+            value: 15.4, kind: 'percent', numerator: 348.7, denominator: 2269.7, unit: 'mins', raw: '15.4% (348.7/2269.7 mins)',
+        });
+    });
+
+    test('reads numbers with thousands separators and the header unit', () => {
+        expect(parseMeasurement('1,234.5', 'm')).toMatchObject({ value: 1234.5, kind: 'number', unit: 'm' });
+        expect(parseMeasurement('-0.043')).toMatchObject({ value: -0.043, kind: 'number' });
+    });
+
+    test('treats blanks as empty and anything else as invalid', () => {
+        expect(parseMeasurement(null).kind).toBe('empty');
+        expect(parseMeasurement('  ').kind).toBe('empty');
+        expect(parseMeasurement('n/a')).toMatchObject({ value: null, kind: 'invalid', raw: 'n/a' });
+        expect(parseMeasurement('12% (broken)').kind).toBe('invalid');
+    });
+});
+
+describe('estimateRate and diffSignificance', () => {
+    test('needs a ratio', () => {
+        expect(estimateRate(parseMeasurement('15.4%'))).toBeNull();
+        expect(estimateRate(parseMeasurement('0% (0/0 mins)'))).toBeNull();
+        expect(diffSignificance(null, estimateRate(parseMeasurement('50% (50/100 mins)')))).toBeNull();
+    });
+
+    test('gives a Wilson interval around the rate', () => {
+        const estimate = estimateRate(parseMeasurement('50% (50/100 mins)'))!;
+        expect(estimate.rate).toBe(50);
+        expect(estimate.interval.low).toBeCloseTo(40.38, 2);
+        expect(estimate.interval.high).toBeCloseTo(59.62, 2);
+    });
+
+    test('calls a difference significant only when its interval excludes zero', () => {
+        const rate = (measurement: string) => estimateRate(parseMeasurement(measurement));
+        expect(diffSignificance(rate('50% (50/100 mins)'), rate('55% (55/100 mins)'))!.significant).toBe(false);
+        expect(diffSignificance(rate('50% (5000/10000 mins)'), rate('55% (5500/10000 mins)'))!.significant).toBe(true);
+    });
+});
+
+describe('findRegressions', () => {
+    test('reports gated values worse than the baseline by more than the threshold', () => {
+        const regressions = gated('engagement_time');
+        expect(regressions.map(regression => regression.id)).toEqual(['Overall', 'Chill', 'Experimental']);
+        expect(regressions[0]).toMatchObject({ branchKey: 'wmi', baselineCell: { value: 60 }, cell: { value: 40 }, amount: 20 });
+    });
+
+    test('narrows a table gate to one column', () => {
+        const relative = findRegressions(branches(), [parseRegressionGate('lane_centering_analysis:Abs Lane Center Engaged (m)')], 10, true);
+        expect(relative).toHaveLength(1);
+        expect(relative[0].amount).toBeCloseTo(50);
+        expect(gated('lane_centering_analysis:Abs Lane Center Engaged (m)')).toHaveLength(0);
+    });
+
+    test('narrows an engagement gate to one mode', () => {
+        expect(gated('engagement_time:overall').map(regression => regression.id)).toEqual(['Overall']);
+        expect(gated('*:chill_mode').map(regression => regression.id)).toEqual(['Chill']);
+    });
+
+    test('passes when nothing gated got worse', () => {
+        const [master, wmi] = branches();
+        expect(findRegressions([wmi, master], [parseRegressionGate('*')], 2, false)).toEqual([]);
+    });
+
+    test('rejects gates that match no section or metric', () => {
+        expect(() => gated('engagment_time')).toThrow('no section or table');
+        expect(() => gated('engagement_time:Overall')).toThrow('no metric or mode');
+        expect(() => gated('lane_centering_analysis:Amplitude Engaged (m)')).toThrow('no metric or mode');
+        expect(() => gated('*:nope')).toThrow('no metric or mode');
+    });
+});
@@ -0,0 +1,869 @@
+// Report parsing, validation and comparison logic with no DOM access, shared by the page (app.ts) and the CLI (cli.ts)
+
+// ===== TYPES =====
+
+export interface ReportData {
+    metadata: {
+        page_title: string | null;
+        url: string;
+        branch_name: string | null;
+    };
+    segments: {
+        total: number;
+        chill_mode: number;
+        experimental_mode: number;
+    };
+    sections?: {
+        engagement_time?: {
+            title: string;
+            overall: number;
+            overall_detail?: string;
+            chill_mode: number;
+            chill_mode_detail?: string;
+            experimental_mode: number;
+            experimental_mode_detail?: string;
+        };
+        engagement_distance?: {
+            title: string;
+            overall: number;
+            overall_detail?: string;
+            chill_mode: number;
+            chill_mode_detail?: string;
+            experimental_mode: number;
+            experimental_mode_detail?: string;
+        };
+    };
+    tables: Record<string, {
+        title: string;
+        headers: string[];
+        rows: any[];
+    }>;
+}
+
+export type EngagementSectionKey = keyof NonNullable<ReportData['sections']>;
+
+export type SegmentField = keyof ReportData['segments'];
+
+export interface FullData {
+    timestamp: string;
+    // Keyed by branch name, in the order the scraper wrote them (e.g. master, wmi, ...)
+    data: Record<string, ReportData>;
+}
+
+// Lists every dated snapshot the scraper has written to public/history/
+export interface HistoryIndex {
+    snapshots: {
+        timestamp: string;
+        file: string;
+    }[];
+}
+
+export type MeasurementKind = 'percent' | 'number' | 'count' | 'empty' | 'invalid';
+
+// A single scraped value, parsed once on load, e.g. "15.4% (348.7/2269.7 mins)"
+export interface Measurement {
+    value: number | null;
+    kind: MeasurementKind;
+    numerator: number | null;
+    denominator: number | null;
+    unit: string | null;
+    raw: string;
+}
+
+export interface MeasuredRow {
+    id: string;
+    cells: Record<string, Measurement>;
+}
+
+export interface MeasuredTable {
+    title: string;
+    headers: string[];
+    idKey: string;
+    rows: MeasuredRow[];
+}
+
+export interface MeasuredEngagement {
+    title: string;
+    overall: Measurement;
+    chill_mode: Measurement;
+    experimental_mode: Measurement;
+}
+
+// ReportData with every value parsed into a Measurement; renderers and diffs only read this shape
+export interface MeasuredReport {
+    metadata: ReportData['metadata'];
+    segments: Record<SegmentField, Measurement>;
+    sections: Partial<Record<EngagementSectionKey, MeasuredEngagement>>;
+    tables: Record<string, MeasuredTable>;
+    // Path-level descriptions of values that could not be parsed
+    parseIssues: string[];
+}
+
+export interface Snapshot {
+    timestamp: string;
+    reports: Record<string, MeasuredReport>;
+    // Schema problems found by validateFullData, as "data.<branch>.<path> is not a number"
+    issues: string[];
+}
+
+// A branch report paired with the key it was stored under in FullData.data
+export interface Branch {
+    key: string;
+    report: MeasuredReport;
+}
+
+export const ENGAGEMENT_SECTION_KEYS = ['engagement_time', 'engagement_distance'] as const;
+
+export const ENGAGEMENT_FIELDS = [
+    { field: 'overall', detail: 'overall_detail', label: 'Overall' },
+    { field: 'chill_mode', detail: 'chill_mode_detail', label: 'Chill' },
+    { field: 'experimental_mode', detail: 'experimental_mode_detail', label: 'Experimental' },
+] as const;
+
+export type EngagementField = typeof ENGAGEMENT_FIELDS[number]['field'];
+
+export const SEGMENT_FIELDS: SegmentField[] = ['total', 'chill_mode', 'experimental_mode'];
+
+export function branchLabel(branch: Branch): string {
+    return branch.key.toUpperCase();
+}
+
+// ===== VALIDATION =====
+
+type ExpectedType = 'string' | 'number' | 'object' | 'array';
+
+export function isObject(val: unknown): val is Record<string, unknown> {
+    return typeof val === 'object' && val !== null && !Array.isArray(val);
+}
+
+// Records "<path> is missing" or "<path> is not a <type>" and reports whether the value is usable
+function expectType(issues: string[], val: unknown, path: string, type: ExpectedType, nullable = false): boolean {
+    if (nullable && val === null) return true;
+
+    const ok = type === 'array' ? Array.isArray(val)
+        : type === 'object' ? isObject(val)
+        : type === 'number' ? typeof val === 'number' && Number.isFinite(val)
+        : typeof val === type;
+    if (!ok) {
+        const article = type === 'array' || type === 'object' ? 'an' : 'a';
+        issues.push(val === undefined ? `${path} is missing` : `${path} is not ${article} ${type}${nullable ? ' or null' : ''}`);
+    }
+    return ok;
+}
+
+function expectObject(issues: string[], val: unknown, path: string): val is Record<string, unknown> {
+    return expectType(issues, val, path, 'object');
+}
+
+function validateEngagementSection(section: unknown, path: string, issues: string[]) {
+    if (section === undefined || !expectObject(issues, section, path)) return;
+
+    expectType(issues, section.title, `${path}.title`, 'string');
+    ENGAGEMENT_FIELDS.forEach(({ field, detail }) => {
+        expectType(issues, section[field], `${path}.${field}`, 'number');
+        if (section[detail] !== undefined) expectType(issues, section[detail], `${path}.${detail}`, 'string');
+    });
+}
+
+function validateTable(table: unknown, path: string, issues: string[]) {
+    if (!expectObject(issues, table, path)) return;
+
+    expectType(issues, table.title, `${path}.title`, 'string');
+    if (expectType(issues, table.headers, `${path}.headers`, 'array')) {
+        (table.headers as unknown[]).forEach((header, i) => expectType(issues, header, `${path}.headers[${i}]`, 'string'));
+    }
+    if (expectType(issues, table.rows, `${path}.rows`, 'array')) {
+        (table.rows as unknown[]).forEach((row, i) => expectType(issues, row, `${path}.rows[${i}]`, 'object'));
+    }
+}
+
+function validateReport(report: unknown, path: string, issues: string[]) {
+    if (!expectObject(issues, report, path)) return;
+
+    const { metadata, segments, sections, tables } = report;
+    if (expectObject(issues, metadata, `${path}.metadata`)) {
+        expectType(issues, metadata.page_title, `${path}.metadata.page_title`, 'string', true);
+        expectType(issues, metadata.url, `${path}.metadata.url`, 'string');
+        expectType(issues, metadata.branch_name, `${path}.metadata.branch_name`, 'string', true);
+    }
+
+    if (expectObject(issues, segments, `${path}.segments`)) {
+        SEGMENT_FIELDS.forEach(field => expectType(issues, segments[field], `${path}.segments.${field}`, 'number'));
+    }
+
+    if (sections !== undefined && expectObject(issues, sections, `${path}.sections`)) {
+        ENGAGEMENT_SECTION_KEYS.forEach(key => validateEngagementSection(sections[key], `${path}.sections.${key}`, issues));
+    }
+
+    if (expectObject(issues, tables, `${path}.tables`)) {
+        Object.entries(tables).forEach(([key, table]) => {
+            validateTable(table, `${path}.tables.${key}`, issues);
+        });
+    }
+}
+
+function validateFullData(json: FullData): string[] {
+    const issues: string[] = [];
+    expectType(issues, json.timestamp, 'timestamp', 'string');
+    Object.entries(json.data).forEach(([key, report]) => validateReport(report, `data.${key}`, issues));
+    return issues;
+}
+
+// For a report that did not come from data.json, e.g. a file dropped on the page; issues are prefixed with path
+export function validateReportData(report: unknown, path: string): string[] {
+    const issues: string[] = [];
+    validateReport(report, path, issues);
+    return issues;
+}
+
+// Issues under data.<branch>.<scope> for the given branches; scope "" matches a whole report
+export function scopedIssues(issues: string[], branches: Branch[], scope: string): string[] {
+    return issues.filter(issue => branches.some(branch => {
+        const prefix = scope ? `data.${branch.key}.${scope}` : `data.${branch.key}`;
+        return issue.startsWith(prefix) && /^[.\s[]/.test(issue.slice(prefix.length));
+    }));
+}
+
+// ===== MEASUREMENTS =====
+
+const MAX_HISTORY_SNAPSHOTS = 30;
+
+const PERCENT_PATTERN = /^(-?[\d.]+)%\s*(?:\((.*)\))?$/;
+
+const RATIO_PATTERN = /^\s*([\d.]+)\s*\/\s*([\d.]+)\s*(.*)$/;
+
+const NUMBER_PATTERN = /^-?[\d,]*\.?\d+$/;
+
+export function emptyMeasurement(raw: string): Measurement {
+    return { value: null, kind: 'empty', numerator: null, denominator: null, unit: null, raw };
+}
+
+// "(m)" at the end of a header such as "Amplitude Engaged (m)"
+export function parseHeaderUnit(header: string): string | null {
+    return header.match(/\(([^)]+)\)\s*$/)?.[1] ?? null;
+}
+
+// "348.7/2269.7 mins" -> numerator, denominator and unit
+function parseRatio(detail: string): Pick<Measurement, 'numerator' | 'denominator' | 'unit'> | null {
+    const match = detail.match(RATIO_PATTERN);
+    if (!match) return null;
+
+    const numerator = convertToNum(match[1]);
+    const denominator = convertToNum(match[2]);
+    if (numerator === null || denominator === null) return null;
+    return { numerator, denominator, unit: match[3].trim() || null };
+}
+
+export function parseMeasurement(rawValue: unknown, headerUnit: string | null = null): Measurement {
+    const raw = rawValue === null || rawValue === undefined ? '' : String(rawValue).trim();
+    if (!raw || raw === 'undefined' || raw === 'null') return emptyMeasurement(raw);
+
+    const percentMatch = raw.match(PERCENT_PATTERN);
+    if (percentMatch) {
+        const value = convertToNum(percentMatch[1]);
+        const ratio = percentMatch[2] !== undefined ? parseRatio(percentMatch[2]) : null;
+        if (value !== null && (percentMatch[2] === undefined || ratio)) {
+            return { value, kind: 'percent', numerator: null, denominator: null, unit: null, ...ratio, raw };
+        }
+    } else if (NUMBER_PATTERN.test(raw)) {
+        const value = convertToNum(raw.replace(/,/g, ''));
+        if (value !== null) return { value, kind: 'number', numerator: null, denominator: null, unit: headerUnit, raw };
+    }
+
+    return { value: null, kind: 'invalid', numerator: null, denominator: null, unit: null, raw };
+}
+
+// Engagement sections store the percentage and its "num/den unit" detail as separate fields
+function measureRate(value: unknown, detail: unknown): Measurement {
+    const detailText = typeof detail === 'string' ? detail : '';
+    const raw = detailText ? `${value}% (${detailText})` : `${value ?? ''}`;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return value === undefined ? emptyMeasurement(raw) : { ...emptyMeasurement(raw), kind: 'invalid' };
+    }
+
+    const ratio = detailText ? parseRatio(detailText) : null;
+    return { value, kind: 'percent', numerator: null, denominator: null, unit: null, ...ratio, raw };
+}
+
+function countMeasurement(value: unknown): Measurement {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return value === undefined ? emptyMeasurement('') : { ...emptyMeasurement(String(value)), kind: 'invalid' };
+    }
+    return { value, kind: 'count', numerator: null, denominator: null, unit: null, raw: String(value) };
+}
+
+// Tolerates any shape validateTable complains about, so a broken table still measures to something renderable
+function measureTable(key: string, table: ReportData['tables'][string], parseIssues: string[]): MeasuredTable {
+    const headers = Array.isArray(table?.headers) ? table.headers.map(String) : [];
+    const idKey = headers[0] ?? '';
+    const units = headers.map(parseHeaderUnit);
+    const sourceRows = Array.isArray(table?.rows) ? table.rows.filter(isObject) : [];
+
+    const rows = sourceRows.map(row => {
+        const id = String(row[idKey] ?? '');
+        const cells: Record<string, Measurement> = {};
+        headers.slice(1).forEach((header, h) => {
+            const measurement = parseMeasurement(row[header], units[h + 1]);
+            if (measurement.kind === 'invalid') {
+                parseIssues.push(`tables.${key}.rows[${id}]["${header}"]: could not parse "${measurement.raw}"`);
+            }
+            cells[header] = measurement;
+        });
+        return { id, cells };
+    });
+
+    return { title: typeof table?.title === 'string' ? table.title : key, headers, idKey, rows };
+}
+
+function measureReport(report: ReportData): MeasuredReport {
+    const parseIssues: string[] = [];
+    const sections: MeasuredReport['sections'] = {};
+    const metadata = isObject(report?.metadata) ? report.metadata : { page_title: null, url: '#', branch_name: null };
+
+    const segments = {} as MeasuredReport['segments'];
+    SEGMENT_FIELDS.forEach(field => {
+        segments[field] = countMeasurement(isObject(report?.segments) ? report.segments[field] : undefined);
+    });
+
+    ENGAGEMENT_SECTION_KEYS.forEach(sectionKey => {
+        const section = isObject(report?.sections) ? report.sections[sectionKey] : undefined;
+        if (!isObject(section)) return;
+
+        const measured = { title: typeof section.title === 'string' ? section.title : sectionKey } as MeasuredEngagement;
+        ENGAGEMENT_FIELDS.forEach(({ field, detail }) => {
+            measured[field] = measureRate(section[field], section[detail]);
+            if (measured[field].kind === 'invalid') {
+                parseIssues.push(`sections.${sectionKey}.${field}: could not parse "${measured[field].raw}"`);
+            }
+        });
+        sections[sectionKey] = measured;
+    });
+
+    const tables: Record<string, MeasuredTable> = {};
+    Object.entries(isObject(report?.tables) ? report.tables : {}).forEach(([key, table]) => {
+        tables[key] = measureTable(key, table, parseIssues);
+    });
+
+    return { metadata, segments, sections, tables, parseIssues };
+}
+
+// The history snapshots worth loading besides the current one, oldest first
+export function historyEntries(index: HistoryIndex, current: FullData): HistoryIndex['snapshots'] {
+    return index.snapshots
+        .filter(entry => entry.timestamp !== current.timestamp)
+        .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))
+        .slice(-(MAX_HISTORY_SNAPSHOTS - 1));
+}
+
+export function measureSnapshot(json: FullData): Snapshot {
+    const reports: Record<string, MeasuredReport> = {};
+    Object.entries(json.data).forEach(([key, report]) => {
+        reports[key] = measureReport(report);
+    });
+    return { timestamp: json.timestamp, reports, issues: validateFullData(json) };
+}
+
+// ===== TABLE JOIN =====
+
+export type MissingKind = 'table' | 'row' | 'column';
+
+// A table joined across every branch: union of rows and metric columns, with each side's gaps kept
+export interface JoinedTable {
+    key: string;
+    title: string;
+    idKey: string;
+    metricKeys: string[];
+    tables: (MeasuredTable | null)[];
+    rowIds: string[];
+    headerIssues: string[];
+    parseIssues: string[];
+}
+
+export const MISSING_LABELS: Record<MissingKind, string> = {
+    table: 'NO TABLE',
+    row: 'NO MATCH',
+    column: 'NO COLUMN',
+};
+
+// Rows are matched on the value of each table's own first column
+export function findRow(table: MeasuredTable, rowId: string): MeasuredRow | undefined {
+    return table.rows.find(row => row.id === rowId);
+}
+
+function appendUnique(target: string[], items: string[]) {
+    items.forEach(item => {
+        if (!target.includes(item)) target.push(item);
+    });
+}
+
+// Full outer join over table keys, rows and headers; baseline order first, then each branch's extras
+export function joinTables(branches: Branch[]): JoinedTable[] {
+    const tableKeys: string[] = [];
+    branches.forEach(branch => appendUnique(tableKeys, Object.keys(branch.report.tables)));
+
+    return tableKeys.map(key => {
+        const tables = branches.map(branch => branch.report.tables[key] ?? null);
+        const presentTables = tables.filter((table): table is MeasuredTable => table !== null && table.headers.length > 0);
+
+        const idKey = presentTables[0]?.idKey ?? '';
+        const metricKeys: string[] = [];
+        const rowIds: string[] = [];
+        presentTables.forEach(table => {
+            appendUnique(metricKeys, table.headers.slice(1));
+            appendUnique(rowIds, table.rows.map(row => row.id));
+        });
+
+        const parseIssues = branches.flatMap(branch => branch.report.parseIssues
+            .filter(issue => issue.startsWith(`tables.${key}.`))
+            .map(issue => `${branchLabel(branch)}: ${issue.slice(`tables.${key}.`.length)}`));
+
+        const headerIssues: string[] = [];
+        tables.forEach((table, i) => {
+            const label = branchLabel(branches[i]);
+            if (!table) {
+                headerIssues.push(`${label} has no "${presentTables[0]?.title ?? key}" table`);
+                return;
+            }
+            if (table.idKey !== idKey) {
+                headerIssues.push(`${label} identifies rows by "${table.idKey}" instead of "${idKey}"`);
+            }
+            const missingHeaders = metricKeys.filter(metric => !table.headers.includes(metric));
+            if (missingHeaders.length > 0) {
+                headerIssues.push(`${label} is missing ${missingHeaders.map(metric => `"${metric}"`).join(', ')}`);
+            }
+        });
+
+        return {
+            key,
+            title: presentTables[0]?.title ?? key,
+            idKey,
+            metricKeys,
+            tables,
+            rowIds,
+            headerIssues,
+            parseIssues,
+        };
+    });
+}
+
+// Why a branch has no value for this row and metric, or null when it has one
+export function missingKind(table: MeasuredTable | null, rowId: string, metricName: string): MissingKind | null {
+    if (!table) return 'table';
+    if (!table.headers.includes(metricName)) return 'column';
+    return findRow(table, rowId) ? null : 'row';
+}
+
+export function convertToNum(str: string): number | null {
+    if (!str || str === 'undefined' || str === 'null') return null;
+    
+    const num = parseFloat(str);
+    return (Number.isNaN(num) || !Number.isFinite(num)) ? null : num;
+}
+
+export interface DiffResult {
+    diff: number;
+    diffPrefix: string;
+}
+
+export function calculateDiff(baselineVal: number, branchVal: number): DiffResult {
+    const diff = branchVal - baselineVal;
+    const diffPrefix = diff > 0 ? '+' : '';
+
+    return { diff, diffPrefix };
+}
+
+// ===== METRIC DIRECTIONS =====
+
+export type MetricDirection = 'higher' | 'lower' | 'zero' | 'neutral';
+
+// Keyed by table key (or section key), then by header; '*' covers every header of that key.
+// Anything not listed is 'neutral': shown, but never called an improvement or a regression.
+const METRIC_DIRECTIONS: Record<string, Record<string, MetricDirection>> = {
+    engagement_time: { '*': 'higher' },
+    engagement_distance: { '*': 'higher' },
+    segments: { '*': 'neutral' },
+    speed_bucket_engagement_time: { '*': 'higher' },
+    speed_bucket_engagement_distance: { '*': 'higher' },
+    lane_centering_analysis: {
+        'Lane Center Engaged (m)': 'zero',
+        'Lane Center Disengaged (m)': 'zero',
+        'Abs Lane Center Engaged (m)': 'lower',
+        'Abs Lane Center Disengaged (m)': 'lower',
+    },
+    oscillation_analysis: {
+        'Amplitude Engaged (m)': 'lower',
+        'Amplitude Disengaged (m)': 'lower',
+    },
+};
+
+export const DIRECTION_LABELS: Record<MetricDirection, string> = {
+    higher: 'Higher is better',
+    lower: 'Lower is better',
+    zero: 'Closer to zero is better',
+    neutral: 'No better direction',
+};
+
+export function metricDirection(key: string, header: string): MetricDirection {
+    const directions = METRIC_DIRECTIONS[key];
+    return directions?.[header] ?? directions?.['*'] ?? 'neutral';
+}
+
+// Larger score is better; null when the metric has no better direction
+export function directionScore(direction: MetricDirection, val: number): number | null {
+    switch (direction) {
+        case 'higher': return val;
+        case 'lower': return -val;
+        case 'zero': return -Math.abs(val);
+        case 'neutral': return null;
+    }
+}
+
+// ===== STATISTICS =====
+
+// Bounds are in percent for rates and percentage points for differences
+export interface Interval {
+    low: number;
+    high: number;
+}
+
+export interface RateEstimate {
+    rate: number;
+    interval: Interval;
+}
+
+export interface DiffSignificance {
+    interval: Interval;
+    significant: boolean;
+}
+
+const Z_95 = 1.96;
+
+// Wilson score interval, treating each unit of the denominator (one minute or mile) as an independent trial
+export function estimateRate(measurement: Measurement | undefined): RateEstimate | null {
+    if (!measurement || measurement.numerator === null || measurement.denominator === null || measurement.denominator <= 0) return null;
+
+    const n = measurement.denominator;
+    const p = Math.min(measurement.numerator / n, 1);
+    const z2 = Z_95 * Z_95;
+    const scale = 1 + z2 / n;
+    const center = (p + z2 / (2 * n)) / scale;
+    const halfWidth = (Z_95 * Math.sqrt(p * (1 - p) / n + z2 / (4 * n * n))) / scale;
+
+    return {
+        rate: p * 100,
+        interval: { low: (center - halfWidth) * 100, high: (center + halfWidth) * 100 },
+    };
+}
+
+// Newcombe's hybrid score interval for (branch - baseline), built from the two Wilson intervals
+export function diffSignificance(baseline: RateEstimate | null, branch: RateEstimate | null): DiffSignificance | null {
+    if (!baseline || !branch) return null;
+
+    const diff = branch.rate - baseline.rate;
+    const low = diff - Math.hypot(branch.rate - branch.interval.low, baseline.interval.high - baseline.rate);
+    const high = diff + Math.hypot(branch.interval.high - branch.rate, baseline.rate - baseline.interval.low);
+
+    return { interval: { low, high }, significant: low > 0 || high < 0 };
+}
+
+// ===== COMPARISON SECTIONS =====
+
+// A measured value, or why the branch has none for this row
+export type ExportCell = Measurement | MissingKind;
+
+export interface ExportRow {
+    id: string;
+    metric: string;
+    cells: ExportCell[];
+}
+
+// One section as the page shows it: a row per id and metric, a cell per branch (baseline first)
+export interface ExportSection {
+    scope: string;
+    title: string;
+    idKey: string;
+    rows: ExportRow[];
+}
+
+function exportEngagement(branches: Branch[], sectionKey: EngagementSectionKey): ExportSection {
+    return {
+        scope: `sections.${sectionKey}`,
+        title: sectionKey === 'engagement_time' ? 'Engagement Rate (Time)' : 'Engagement Rate (Distance)',
+        idKey: 'Mode',
+        rows: ENGAGEMENT_FIELDS.map(({ field, label }) => ({
+            id: label,
+            metric: 'Engagement rate',
+            cells: branches.map(branch => branch.report.sections[sectionKey]?.[field] ?? emptyMeasurement('')),
+        })),
+    };
+}
+
+function exportSegments(branches: Branch[]): ExportSection {
+    const rows: [SegmentField, string][] = [['chill_mode', 'Chill'], ['experimental_mode', 'Experimental'], ['total', 'Total Segments']];
+    return {
+        scope: 'segments',
+        title: 'Segment Analysis',
+        idKey: 'Mode',
+        rows: rows.map(([field, label]) => ({
+            id: label,
+            metric: 'Segments',
+            cells: branches.map(branch => branch.report.segments[field]),
+        })),
+    };
+}
+
+function exportTable(joined: JoinedTable): ExportSection {
+    return {
+        scope: `tables.${joined.key}`,
+        title: joined.title,
+        idKey: joined.idKey,
+        rows: joined.metricKeys.flatMap(metric => joined.rowIds.map(id => ({
+            id,
+            metric,
+            cells: joined.tables.map(table => missingKind(table, id, metric) ?? findRow(table!, id)?.cells[metric] ?? emptyMeasurement('')),
+        }))),
+    };
+}
+
+// Every exportable section in page order, or just the one whose scope matches
+export function collectExportSections(branches: Branch[], scope: string): ExportSection[] {
+    const sections = [
+        ...ENGAGEMENT_SECTION_KEYS.map(sectionKey => exportEngagement(branches, sectionKey)),
+        exportSegments(branches),
+        ...joinTables(branches).filter(joined => joined.idKey).map(exportTable),
+    ];
+    return scope === 'page' ? sections : sections.filter(section => section.scope === scope);
+}
+
+export function exportDelta(baselineCell: ExportCell, cell: ExportCell): number | null {
+    if (typeof baselineCell === 'string' || typeof cell === 'string') return null;
+    if (baselineCell.value === null || cell.value === null) return null;
+    return calculateDiff(baselineCell.value, cell.value).diff;
+}
+
+// ===== REGRESSIONS =====
+
+// What the CLI fails on: a section or table key ("engagement_time", "lane_centering_analysis"), optionally
+// narrowed to one metric column, or for an engagement section to one mode row ("overall", "chill_mode",
+// "experimental_mode"); key "*" gates every metric that has a better direction
+export interface RegressionGate {
+    key: string;
+    metric: string | null;
+}
+
+export interface Regression {
+    section: string;
+    id: string;
+    metric: string;
+    branchKey: string;
+    baselineCell: Measurement;
+    cell: Measurement;
+    // How much worse than the baseline, in the value's own units (pp for rates) or percent of the baseline
+    amount: number;
+}
+
+// "lane_centering_analysis:Abs Lane Center Engaged (m)" -> key and metric
+export function parseRegressionGate(spec: string): RegressionGate {
+    const separator = spec.indexOf(':');
+    return separator === -1
+        ? { key: spec, metric: null }
+        : { key: spec.slice(0, separator), metric: spec.slice(separator + 1) };
+}
+
+// "tables.oscillation_analysis" -> "oscillation_analysis", the key METRIC_DIRECTIONS uses
+function sectionKey(section: ExportSection): string {
+    return section.scope.slice(section.scope.indexOf('.') + 1);
+}
+
+// Zero when val is no worse than baselineVal; null for metrics with no better direction
+function regressionAmount(direction: MetricDirection, baselineVal: number, val: number, relative: boolean): number | null {
+    const baselineScore = directionScore(direction, baselineVal);
+    const score = directionScore(direction, val);
+    if (baselineScore === null || score === null) return null;
+
+    const worse = Math.max(baselineScore - score, 0);
+    if (!relative) return worse;
+    return baselineVal === 0 ? (worse > 0 ? Infinity : 0) : worse / Math.abs(baselineVal) * 100;
+}
+
+function gateMatches(gate: RegressionGate, key: string, row: ExportRow): boolean {
+    if (gate.key !== '*' && gate.key !== key) return false;
+    if (gate.metric === null || gate.metric === row.metric) return true;
+    const isEngagement = ENGAGEMENT_SECTION_KEYS.some(sectionKey => sectionKey === key);
+    return isEngagement && ENGAGEMENT_FIELDS.some(({ field, label }) => field === gate.metric && label === row.id);
+}
+
+// A gate that matches nothing would pass every check, so a misspelled key or metric is an error instead
+function checkGates(sections: ExportSection[], gates: RegressionGate[]) {
+    gates.forEach(gate => {
+        const keyed = sections.filter(section => gate.key === '*' || gate.key === sectionKey(section));
+        if (keyed.length === 0) throw new Error(`--gate ${gate.key}: no section or table with that key`);
+        if (gate.metric !== null && !keyed.some(section => section.rows.some(row => gateMatches(gate, sectionKey(section), row)))) {
+            throw new Error(`--gate ${gate.key}:${gate.metric}: no metric or mode "${gate.metric}" in ${gate.key === '*' ? 'any section' : gate.key}`);
+        }
+    });
+}
+
+// Every gated value where a challenger is worse than the baseline by more than the threshold; throws when a gate
+// matches no section or metric
+export function findRegressions(branches: Branch[], gates: RegressionGate[], threshold: number, relative: boolean): Regression[] {
+    const regressions: Regression[] = [];
+    const sections = collectExportSections(branches, 'page');
+    checkGates(sections, gates);
+
+    sections.forEach(section => {
+        const key = sectionKey(section);
+        section.rows.forEach(row => {
+            const gated = gates.some(gate => gateMatches(gate, key, row));
+            const [baselineCell, ...cells] = row.cells;
+            if (!gated || typeof baselineCell === 'string' || baselineCell.value === null) return;
+
+            cells.forEach((cell, i) => {
+                if (typeof cell === 'string' || cell.value === null) return;
+                const amount = regressionAmount(metricDirection(key, row.metric), baselineCell.value!, cell.value, relative);
+                if (amount === null || amount <= threshold) return;
+                regressions.push({
+                    section: section.title,
+                    id: row.id,
+                    metric: row.metric,
+                    branchKey: branches[i + 1].key,
+                    baselineCell,
+                    cell,
+                    amount,
+                });
+            });
+        });
+    });
+
+    return regressions;
+}
+
+// ===== CHANGELOG =====
+
+export interface SegmentChange {
+    branchKey: string;
+    field: SegmentField;
+    before: Measurement;
+    after: Measurement;
+}
+
+export interface RateShift {
+    branchKey: string;
+    sectionKey: EngagementSectionKey;
+    title: string;
+    label: string;
+    before: Measurement;
+    after: Measurement;
+}
+
+// A branch, a table or a row that exists in only one of the two snapshots
+export interface PresenceChange {
+    branchKey: string;
+    tableKey: string | null;
+    title: string | null;
+    rowId: string | null;
+    appeared: boolean;
+}
+
+export interface CellMovement {
+    branchKey: string;
+    tableKey: string;
+    title: string;
+    rowId: string;
+    metric: string;
+    before: Measurement;
+    after: Measurement;
+    // |after - before| relative to before, so lane offsets and rates rank on one scale
+    relativeChange: number;
+}
+
+// What moved between two consecutive snapshots, for every branch in either of them
+export interface Changelog {
+    segments: SegmentChange[];
+    rates: RateShift[];
+    presence: PresenceChange[];
+    movements: CellMovement[];
+}
+
+function presentRowIds(table: MeasuredTable): string[] {
+    return table.rows.map(row => row.id);
+}
+
+// Movements are cut to the maxMovements largest relative changes; everything else is listed in full
+export function diffSnapshots(before: Snapshot, after: Snapshot, maxMovements: number): Changelog {
+    const changelog: Changelog = { segments: [], rates: [], presence: [], movements: [] };
+    const branchKeys: string[] = [];
+    appendUnique(branchKeys, Object.keys(after.reports));
+    appendUnique(branchKeys, Object.keys(before.reports));
+
+    branchKeys.forEach(branchKey => {
+        const previous = before.reports[branchKey];
+        const current = after.reports[branchKey];
+        if (!previous || !current) {
+            changelog.presence.push({ branchKey, tableKey: null, title: null, rowId: null, appeared: !previous });
+            return;
+        }
+
+        SEGMENT_FIELDS.forEach(field => {
+            const [beforeCount, afterCount] = [previous.segments[field], current.segments[field]];
+            if (beforeCount.value === null || afterCount.value === null || beforeCount.value === afterCount.value) return;
+            changelog.segments.push({ branchKey, field, before: beforeCount, after: afterCount });
+        });
+
+        ENGAGEMENT_SECTION_KEYS.forEach(sectionKey => {
+            const [previousSection, currentSection] = [previous.sections[sectionKey], current.sections[sectionKey]];
+            if (!previousSection || !currentSection) return;
+
+            ENGAGEMENT_FIELDS.forEach(({ field, label }) => {
+                const [beforeRate, afterRate] = [previousSection[field], currentSection[field]];
+                if (beforeRate.value === null || afterRate.value === null || beforeRate.value === afterRate.value) return;
+                changelog.rates.push({ branchKey, sectionKey, title: currentSection.title, label, before: beforeRate, after: afterRate });
+            });
+        });
+
+        const tableKeys: string[] = [];
+        appendUnique(tableKeys, Object.keys(current.tables));
+        appendUnique(tableKeys, Object.keys(previous.tables));
+        tableKeys.forEach(tableKey => {
+            const [previousTable, currentTable] = [previous.tables[tableKey], current.tables[tableKey]];
+            if (!previousTable || !currentTable) {
+                const title = (currentTable ?? previousTable).title;
+                changelog.presence.push({ branchKey, tableKey, title, rowId: null, appeared: !previousTable });
+                return;
+            }
+
+            const [previousIds, currentIds] = [presentRowIds(previousTable), presentRowIds(currentTable)];
+            currentIds.filter(id => !previousIds.includes(id)).forEach(rowId => {
+                changelog.presence.push({ branchKey, tableKey, title: currentTable.title, rowId, appeared: true });
+            });
+            previousIds.filter(id => !currentIds.includes(id)).forEach(rowId => {
+                changelog.presence.push({ branchKey, tableKey, title: currentTable.title, rowId, appeared: false });
+            });
+
+            currentTable.rows.forEach(row => {
+                const previousRow = findRow(previousTable, row.id);
+                if (!previousRow) return;
+
+                Object.entries(row.cells).forEach(([metric, cell]) => {
+                    const previousCell = previousRow.cells[metric];
+                    if (!previousCell || previousCell.value === null || cell.value === null || previousCell.value === cell.value) return;
+                    changelog.movements.push({
+                        branchKey,
+                        tableKey,
+                        title: currentTable.title,
+                        rowId: row.id,
+                        metric,
+                        before: previousCell,
+                        after: cell,
+                        relativeChange: previousCell.value === 0 ? Infinity : Math.abs(cell.value - previousCell.value) / Math.abs(previousCell.value),
+                    });
+                });
+            });
+        });
+    });
+
+    changelog.movements = changelog.movements
+        .sort((a, b) => (b.relativeChange - a.relativeChange) || 0)
+        .slice(0, maxMovements);
+    return changelog;
+}
@@ -1,14 +1,23 @@
 import { defineConfig } from 'vite'
 import tailwindcss from '@tailwindcss/vite'
 import { readFileSync } from 'fs'
+import { prerender } from './src/prerender'
+
+// Client-side routes handled by src/app.ts; keep in sync with public/404.html
+const APP_ROUTES = /^\/(compare|table|engagement|segments)(\/|\?|$)/
 
 export default defineConfig({
     plugins: [
         tailwindcss(),
+        prerender(),
         {
             name: 'dev-only-404',
             configureServer(server) {
                 server.middlewares.use((req, res, next) => {
+                    if (req.url && APP_ROUTES.test(req.url)) {
+                        req.url = '/'
+                        return next()
+                    }
                     if (req.url === '/' || req.url?.startsWith('/@') || req.url?.includes('.')) {
                         return next()
                     }